@@ -0,0 +1,234 @@
+import path from "node:path";
+
+import type {
+  NextUpdatesDep,
+  NextUpdatesEvidenceOptions,
+  NextUpdatesNetworkOptions,
+  NextUpdatesPolicyOptions,
+  NextUpdatesRisk,
+  NextUpdatesScope,
+  NextUpdatesTarget,
+} from "../config/options";
+import { bisectApplyChanges } from "../core/apply/bisect";
+import {
+  formatApplyDiff,
+  type NextUpdatesApplyChange,
+  planApplyChanges,
+  readNextUpdatesReportJson,
+  selectApplyChanges,
+  writeApplyEdits,
+} from "../core/apply/plan";
+import {
+  buildInstallArgs,
+  type NextUpdatesVerification,
+  partitionApplyChanges,
+  verifyApplyGroups,
+} from "../core/apply/verify";
+import { detectPackageManager } from "../core/lockfiles/detect";
+import {
+  collectNextUpdatesReport,
+  writeNextUpdatesReportJson,
+} from "../core/report/collect";
+import type { NextUpdatesReport } from "../core/report/types";
+import { type CommandRunner, runCommand } from "../infra/process/run";
+
+export type NextUpdatesApplyOptions = {
+  cwd: string;
+  stdout: NodeJS.WriteStream;
+  stderr: NodeJS.WriteStream;
+  selectors: string[];
+  reportFile?: string;
+  all: boolean;
+  dryRun: boolean;
+  install: boolean;
+  verify: boolean;
+  bisect: boolean;
+  verifyScripts: readonly string[];
+  scope: NextUpdatesScope;
+  target: NextUpdatesTarget;
+  dep: NextUpdatesDep;
+  risk: NextUpdatesRisk;
+  evidence?: NextUpdatesEvidenceOptions;
+  network?: NextUpdatesNetworkOptions;
+  policy?: NextUpdatesPolicyOptions;
+  runner?: CommandRunner;
+};
+
+// Rewrites package.json ranges for the selected candidates. The diff is always
+// printed before anything is written; lockfiles only change with --install or
+// --verify.
+export async function runNextUpdatesApply(
+  options: NextUpdatesApplyOptions
+): Promise<void> {
+  if (options.selectors.length === 0 && !options.all) {
+    options.stderr.write(
+      "Select packages to apply (names or <packageFile>:<name>), or pass --all.\n"
+    );
+    return;
+  }
+
+  const report = await loadApplyReport(options);
+  const { changes, unmatched } = selectApplyChanges(report, options.selectors);
+  for (const selector of unmatched) {
+    options.stderr.write(`No candidate matches ${selector}.\n`);
+  }
+
+  const plan = await planApplyChanges(options.cwd, changes);
+  for (const skip of plan.skipped) {
+    options.stderr.write(
+      `Skipped ${skip.change.packageName} in ${skip.change.packageFile}: ${skip.reason}.\n`
+    );
+  }
+  if (plan.edits.length === 0) {
+    options.stdout.write("Nothing to apply.\n");
+    return;
+  }
+
+  options.stdout.write(formatApplyDiff(plan.edits));
+  if (options.dryRun) {
+    options.stdout.write("Dry run: no files were written.\n");
+    return;
+  }
+
+  if (options.bisect) {
+    await runBisect(options, report, changes);
+    return;
+  }
+  if (options.verify) {
+    await runVerify(options, report, changes);
+    return;
+  }
+
+  await writeApplyEdits(options.cwd, plan.edits);
+  const count = plan.edits.reduce((sum, edit) => sum + edit.changes.length, 0);
+  options.stdout.write(
+    `Updated ${count} range(s) in ${plan.edits.length} package file(s).\n`
+  );
+
+  if (options.install) {
+    await runInstall(options);
+  }
+}
+
+async function loadApplyReport(
+  options: NextUpdatesApplyOptions
+): Promise<NextUpdatesReport> {
+  if (options.reportFile) {
+    return await readNextUpdatesReportJson(
+      path.resolve(options.cwd, options.reportFile)
+    );
+  }
+  return await collectNextUpdatesReport({
+    cwd: options.cwd,
+    scope: options.scope,
+    target: options.target,
+    dep: options.dep,
+    risk: options.risk,
+    evidence: options.evidence,
+    network: options.network,
+    policy: options.policy,
+  });
+}
+
+async function runVerify(
+  options: NextUpdatesApplyOptions,
+  report: NextUpdatesReport,
+  changes: readonly NextUpdatesApplyChange[]
+): Promise<void> {
+  const packageManager = (await detectPackageManager(options.cwd)) ?? "npm";
+  const verification = await verifyApplyGroups({
+    cwd: options.cwd,
+    groups: partitionApplyChanges(changes, report.upgradeGroups ?? []),
+    packageManager,
+    scripts: options.verifyScripts,
+    runner: options.runner ?? runCommand,
+    onStep: (groupId, step) => {
+      const status = step.exitCode === 0 ? "ok" : `exit ${step.exitCode}`;
+      options.stdout.write(
+        `[${groupId}] ${step.command} (${step.workspace}): ${status}\n`
+      );
+    },
+  });
+  options.stdout.write(formatVerificationSummary(verification));
+
+  const outPath = await writeNextUpdatesReportJson({
+    cwd: options.cwd,
+    fileName: options.reportFile ?? "next-updates-report.json",
+    report: { ...report, verification },
+  });
+  options.stdout.write(`Wrote ${outPath}\n`);
+}
+
+// Leaves package files untouched; it only reports which candidates to hold
+// back.
+async function runBisect(
+  options: NextUpdatesApplyOptions,
+  report: NextUpdatesReport,
+  changes: readonly NextUpdatesApplyChange[]
+): Promise<void> {
+  const packageManager = (await detectPackageManager(options.cwd)) ?? "npm";
+  const bisect = await bisectApplyChanges({
+    cwd: options.cwd,
+    changes,
+    packageManager,
+    scripts: options.verifyScripts,
+    runner: options.runner ?? runCommand,
+    onStep: (label, step) => {
+      const status = step.exitCode === 0 ? "ok" : `exit ${step.exitCode}`;
+      options.stdout.write(
+        `[bisect ${label}] ${step.command} (${step.workspace}): ${status}\n`
+      );
+    },
+  });
+
+  if (bisect.status === "passed") {
+    options.stdout.write("All selected upgrades pass together.\n");
+  } else if (bisect.status === "baseline-failed") {
+    options.stdout.write(
+      "Verification already fails with no upgrades applied; nothing to bisect.\n"
+    );
+  } else {
+    options.stdout.write(
+      `Minimal failing subset after ${bisect.runs} run(s):\n${bisect.failing
+        .map((entry) => `- ${entry.packageFile}:${entry.packageName}\n`)
+        .join("")}`
+    );
+  }
+
+  const outPath = await writeNextUpdatesReportJson({
+    cwd: options.cwd,
+    fileName: options.reportFile ?? "next-updates-report.json",
+    report: { ...report, bisect },
+  });
+  options.stdout.write(`Wrote ${outPath}\n`);
+}
+
+function formatVerificationSummary(
+  verification: readonly NextUpdatesVerification[]
+): string {
+  const lines = verification.map((result) =>
+    result.status === "passed"
+      ? `Kept ${result.groupId}: verification passed.`
+      : `Rolled back ${result.groupId}: verification failed.`
+  );
+  return lines.length > 0 ? `${lines.join("\n")}\n` : "";
+}
+
+async function runInstall(options: NextUpdatesApplyOptions): Promise<void> {
+  const packageManager = (await detectPackageManager(options.cwd)) ?? "npm";
+  const runner = options.runner ?? runCommand;
+  options.stdout.write(`Running ${packageManager} install…\n`);
+  const result = await runner(
+    packageManager,
+    buildInstallArgs(packageManager),
+    {
+      cwd: options.cwd,
+    }
+  );
+  options.stdout.write(result.output);
+  if (result.exitCode !== 0) {
+    throw new Error(
+      `${packageManager} install failed with exit code ${result.exitCode}`
+    );
+  }
+}
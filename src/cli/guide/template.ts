@@ -25,7 +25,7 @@ export function formatNextUpdatesGuidePromptMarkdown(
     "6. Run next-updates with flags:",
     "",
     "```bash",
-    "npx next-updates@latest --scope <all|root|workspaces> --target <latest|minor|patch> --dep <all|dependencies|devDependencies> --risk <all|major-only|non-major|prerelease-only|unknown-only> --output <prompt|json>",
+    "npx next-updates@latest --scope <all|root|workspaces> --target <latest|minor|patch> --dep <all|dependencies|devDependencies|optionalDependencies|peerDependencies> --risk <all|major-only|non-major|prerelease-only|unknown-only|breaking-only|security-only|deprecated-only> --output <prompt|json>",
     "```",
     "",
     "7. If output is json, read `next-updates-report.json` from the project root.",
@@ -2,7 +2,10 @@ import path from "node:path";
 
 import type {
   NextUpdatesDep,
+  NextUpdatesEvidenceOptions,
+  NextUpdatesNetworkOptions,
   NextUpdatesOutput,
+  NextUpdatesPolicyOptions,
   NextUpdatesPromptResult,
   NextUpdatesRisk,
   NextUpdatesScope,
@@ -21,6 +24,9 @@ export async function runNextUpdatesFlow(options: {
   cwd: string;
   ui: ClackUi;
   defaults?: Partial<NextUpdatesPromptResult>;
+  evidence?: NextUpdatesEvidenceOptions;
+  network?: NextUpdatesNetworkOptions;
+  policy?: NextUpdatesPolicyOptions;
   debugDump?: boolean;
 }): Promise<void> {
   const workspacesAvailable = await hasWorkspaceConfig(options.cwd);
@@ -48,6 +54,9 @@ export async function runNextUpdatesFlow(options: {
       target: answers.target,
       dep: answers.dep,
       risk: answers.risk,
+      evidence: options.evidence,
+      network: options.network,
+      policy: options.policy,
       debugDumpDir,
     })
   );
@@ -73,6 +82,9 @@ export async function runNextUpdatesNonInteractive(options: {
   dep: NextUpdatesDep;
   risk: NextUpdatesRisk;
   output: NextUpdatesOutput;
+  evidence?: NextUpdatesEvidenceOptions;
+  network?: NextUpdatesNetworkOptions;
+  policy?: NextUpdatesPolicyOptions;
   debugDump?: boolean;
 }): Promise<void> {
   const debugDumpDir = options.debugDump
@@ -85,6 +97,9 @@ export async function runNextUpdatesNonInteractive(options: {
     target: options.target,
     dep: options.dep,
     risk: options.risk,
+    evidence: options.evidence,
+    network: options.network,
+    policy: options.policy,
     debugDumpDir,
   });
 
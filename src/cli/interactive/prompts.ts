@@ -66,7 +66,7 @@ export async function promptNextUpdates(
       {
         value: "all",
         label: "all",
-        hint: "dependencies + devDependencies",
+        hint: "dependencies + devDependencies + optionalDependencies + peerDependencies",
       },
       {
         value: "dependencies",
@@ -78,6 +78,16 @@ export async function promptNextUpdates(
         label: "devDependencies",
         hint: "Dev-only deps (build/test/lint)",
       },
+      {
+        value: "optionalDependencies",
+        label: "optionalDependencies",
+        hint: "Optional deps (platform binaries, extras)",
+      },
+      {
+        value: "peerDependencies",
+        label: "peerDependencies",
+        hint: "Peer ranges (suggested as widened ranges)",
+      },
     ]));
 
   if (dep === null) {
@@ -112,6 +122,21 @@ export async function promptNextUpdates(
         label: "unknown-only",
         hint: "Missing or invalid versions",
       },
+      {
+        value: "breaking-only",
+        label: "breaking-only",
+        hint: "Release notes mention breaking changes",
+      },
+      {
+        value: "security-only",
+        label: "security-only",
+        hint: "Installed version has known advisories",
+      },
+      {
+        value: "deprecated-only",
+        label: "deprecated-only",
+        hint: "Installed, target or package is deprecated",
+      },
     ]));
 
   if (risk === null) {
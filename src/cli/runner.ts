@@ -6,7 +6,14 @@ export type RunCliOptions = {
 
 import fs from "node:fs/promises";
 
-import type { NextUpdatesPromptResult } from "../config/options";
+import { parseDuration } from "../config/duration";
+import { loadNextUpdatesConfig, type NextUpdatesConfig } from "../config/file";
+import type {
+  NextUpdatesEvidenceOptions,
+  NextUpdatesNetworkOptions,
+  NextUpdatesPolicyOptions,
+  NextUpdatesPromptResult,
+} from "../config/options";
 import {
   depValues,
   outputValues,
@@ -14,6 +21,8 @@ import {
   scopeValues,
   targetValues,
 } from "../config/options";
+import { defaultVerifyScripts } from "../core/apply/verify";
+import { runNextUpdatesApply } from "./apply";
 import {
   collectNextUpdatesGuideContext,
   formatNextUpdatesGuidePromptMarkdown,
@@ -24,14 +33,18 @@ import {
 } from "./interactive/flow";
 import { createClackUi } from "./ui/clack";
 
-type CliCommand = "help" | "version" | "run";
+type CliCommand = "help" | "version" | "apply" | "run";
 
 type RunOptions = NextUpdatesPromptResult;
 
 type ParsedRunOptions = {
   hasRunFlags: boolean;
   debugDump: boolean;
+  evidence: NextUpdatesEvidenceOptions;
+  network: NextUpdatesNetworkOptions;
+  policy: NextUpdatesPolicyOptions;
   overrides: Partial<RunOptions>;
+  defaults: Partial<RunOptions>;
   resolved: RunOptions;
   errors: string[];
 };
@@ -54,24 +67,70 @@ const HELP_TEXT = `next-updates
 Usage:
   next-updates
   next-updates --interactive
-  next-updates --scope <all|root|workspaces> --target <latest|minor|patch> --dep <all|dependencies|devDependencies> --risk <all|major-only|non-major|prerelease-only|unknown-only> --output <prompt|json>
+  next-updates --scope <all|root|workspaces> --target <latest|minor|patch> --dep <all|dependencies|devDependencies|optionalDependencies|peerDependencies> --risk <all|major-only|non-major|prerelease-only|unknown-only|breaking-only|security-only|deprecated-only> --output <prompt|json>
+  next-updates apply <package...|--all> [--report <file>] [--dry-run] [--install] [--verify|--bisect]
   next-updates --help
   next-updates --version
 
 Notes:
   - Running with no flags prints the agent guide prompt.
+  - Defaults, ignores, per-package targets and workspace include/exclude can
+    be set in next-updates.config.{json,mjs,ts} or package.json#next-updates;
+    flags override them.
   - --output json writes next-updates-report.json to the current directory.
+  - With GITHUB_TOKEN set, GitHub repositories are read through the API:
+    exact tags for compare links plus release names, dates and bodies.
+  - apply prints a diff, then rewrites ranges in each candidate's package.json.
+    Packages are names or <packageFile>:<name>. Without --report, a fresh
+    report is collected with the run options below. Lockfiles are left alone
+    unless --install is passed.
 
 Options:
   --interactive, -i   Run the interactive UI wizard
   --scope             all|root|workspaces
   --target            latest|minor|patch
-  --dep               all|dependencies|devDependencies
-  --risk              all|major-only|non-major|prerelease-only|unknown-only
+  --dep               all|dependencies|devDependencies|optionalDependencies|peerDependencies
+  --risk              all|major-only|non-major|prerelease-only|unknown-only|breaking-only|security-only|deprecated-only
   --output, --format  prompt|json
+  --with-notes        Embed release notes/changelog sections for each version window
+  --transitive        Also report outdated or duplicated transitive packages from the lockfile
+  --package-diff      Download installed and target tarballs and diff files, package.json fields and size
+  --fixtures <dir>    Serve registry/HTTP evidence from recorded fixtures (offline)
+  --advisories <file> Read security advisories from a local JSON file (offline)
+  --no-cache          Skip the on-disk HTTP cache
+  --cache-dir <dir>   HTTP cache location (default: node_modules/.cache/next-updates)
+  --network-timeout <ms>  Per-request timeout for registry/evidence requests (default: 15000)
+  --concurrency <n>   Max concurrent evidence requests (default: 8)
+  --min-age <duration>  Skip target releases younger than this (30m, 12h, 7d, 2w) and fall back to older ones
   --debug-dump        Write debug dumps to ./next-updates-debug
+
+Apply options:
+  --report <file>     Apply from a saved JSON report instead of a fresh run
+  --all               Apply every candidate in the report
+  --dry-run           Print the diff without writing
+  --install           Run the package manager install afterwards (updates lockfiles)
+  --verify            Per upgrade group: install, run scripts, roll back on failure
+  --bisect            Find the minimal subset of the selection that fails verification
+  --verify-scripts <a,b>  Scripts run per affected workspace (default: typecheck,test,build)
 `;
 
+const applyValueFlags = new Set([
+  "--report",
+  "--scope",
+  "--target",
+  "--dep",
+  "--risk",
+  "--output",
+  "--format",
+  "--fixtures",
+  "--advisories",
+  "--cache-dir",
+  "--network-timeout",
+  "--concurrency",
+  "--min-age",
+  "--verify-scripts",
+]);
+
 function writeLine(stream: NodeJS.WriteStream, line: string): void {
   stream.write(`${line}\n`);
 }
@@ -114,9 +173,29 @@ function parseCommand(args: readonly string[]): CliCommand {
     return "version";
   }
 
+  if (args[0] === "apply") {
+    return "apply";
+  }
+
   return "run";
 }
 
+// Positional arguments after `apply`, skipping the values of flags.
+function parseApplySelectors(args: readonly string[]): string[] {
+  const selectors: string[] = [];
+  for (let index = 1; index < args.length; index += 1) {
+    const arg = args[index];
+    if (applyValueFlags.has(arg)) {
+      index += 1;
+      continue;
+    }
+    if (!arg.startsWith("-")) {
+      selectors.push(arg);
+    }
+  }
+  return selectors;
+}
+
 function readFlagValue(args: readonly string[], flag: string): FlagValue {
   const flagIndex = args.findIndex(
     (cliArg) => cliArg === flag || cliArg.startsWith(`${flag}=`)
@@ -178,7 +257,134 @@ function parseEnumFlag<T extends string>(
   return { present: true, value };
 }
 
-function parseRunOptions(args: readonly string[]): ParsedRunOptions {
+function parseStringFlag(
+  args: readonly string[],
+  flag: string
+): { present: boolean; value?: string; error?: string } {
+  const match = readFlagValue(args, flag);
+  if (!match.present) {
+    return { present: false };
+  }
+  if (!match.value || match.value.startsWith("-")) {
+    return { present: true, error: `Missing value for ${flag}.` };
+  }
+  return { present: true, value: match.value };
+}
+
+function parseIntegerFlag(
+  args: readonly string[],
+  flag: string
+): { present: boolean; value?: number; error?: string } {
+  const match = parseStringFlag(args, flag);
+  if (!match.value) {
+    return { present: match.present, error: match.error };
+  }
+  const value = Number(match.value);
+  if (!Number.isInteger(value) || value <= 0) {
+    return {
+      present: true,
+      error: `Invalid value for ${flag}: ${match.value}.`,
+    };
+  }
+  return { present: true, value };
+}
+
+function parseNetworkOptions(args: readonly string[]): {
+  present: boolean;
+  network: NextUpdatesNetworkOptions;
+  errors: string[];
+} {
+  const fixtures = parseStringFlag(args, "--fixtures");
+  const advisories = parseStringFlag(args, "--advisories");
+  const cacheDir = parseStringFlag(args, "--cache-dir");
+  const noCache = args.includes("--no-cache");
+  const timeout = parseIntegerFlag(args, "--network-timeout");
+  const concurrency = parseIntegerFlag(args, "--concurrency");
+
+  const errors: string[] = [];
+  for (const entry of [fixtures, advisories, cacheDir, timeout, concurrency]) {
+    if (entry.error) {
+      errors.push(entry.error);
+    }
+  }
+
+  const network: NextUpdatesNetworkOptions = {};
+  if (fixtures.value) {
+    network.fixturesDir = fixtures.value;
+  }
+  if (advisories.value) {
+    network.advisoriesFile = advisories.value;
+  }
+  if (noCache) {
+    network.cache = false;
+  }
+  if (cacheDir.value) {
+    network.cacheDir = cacheDir.value;
+  }
+  if (timeout.value) {
+    network.timeoutMs = timeout.value;
+  }
+  if (concurrency.value) {
+    network.concurrency = concurrency.value;
+  }
+
+  return {
+    present:
+      fixtures.present ||
+      advisories.present ||
+      cacheDir.present ||
+      noCache ||
+      timeout.present ||
+      concurrency.present,
+    network,
+    errors,
+  };
+}
+
+// Policy comes from the config file; --min-age overrides its minAge.
+function parsePolicyOptions(
+  args: readonly string[],
+  config: NextUpdatesConfig
+): { present: boolean; policy: NextUpdatesPolicyOptions; errors: string[] } {
+  const { ignore, targets, policies, workspaces, minAge } = config;
+  const policy: NextUpdatesPolicyOptions = {
+    ignore,
+    targets,
+    policies,
+    workspaces,
+    minAge,
+  };
+  const minAgeFlag = parseStringFlag(args, "--min-age");
+  if (minAgeFlag.error) {
+    return { present: true, policy, errors: [minAgeFlag.error] };
+  }
+  if (minAgeFlag.value) {
+    if (parseDuration(minAgeFlag.value) === null) {
+      return {
+        present: true,
+        policy,
+        errors: [`Invalid value for --min-age: ${minAgeFlag.value}.`],
+      };
+    }
+    policy.minAge = minAgeFlag.value;
+  }
+  return { present: minAgeFlag.present, policy, errors: [] };
+}
+
+function pickRunDefaults(config: NextUpdatesConfig): Partial<RunOptions> {
+  const defaults: Partial<RunOptions> = {};
+  for (const key of ["scope", "target", "dep", "risk", "output"] as const) {
+    if (config[key] !== undefined) {
+      Object.assign(defaults, { [key]: config[key] });
+    }
+  }
+  return defaults;
+}
+
+function parseRunOptions(
+  args: readonly string[],
+  config: NextUpdatesConfig = {}
+): ParsedRunOptions {
   const errors: string[] = [];
   const scope = parseEnumFlag(args, ["--scope"], scopeValues, "--scope");
   const target = parseEnumFlag(args, ["--target"], targetValues, "--target");
@@ -190,12 +396,15 @@ function parseRunOptions(args: readonly string[]): ParsedRunOptions {
     outputValues,
     "--output/--format"
   );
+  const network = parseNetworkOptions(args);
+  const policy = parsePolicyOptions(args, config);
 
   for (const entry of [scope, target, dep, risk, output]) {
     if (entry.error) {
       errors.push(entry.error);
     }
   }
+  errors.push(...network.errors, ...policy.errors);
 
   const overrides: Partial<RunOptions> = {};
   if (scope.value) {
@@ -214,6 +423,23 @@ function parseRunOptions(args: readonly string[]): ParsedRunOptions {
     overrides.output = output.value;
   }
 
+  const withNotes = args.includes("--with-notes");
+  const transitive = args.includes("--transitive");
+  const packageDiff = args.includes("--package-diff");
+  const evidence: NextUpdatesEvidenceOptions = {};
+  if (withNotes) {
+    evidence.withNotes = true;
+  }
+  if (transitive) {
+    evidence.transitive = true;
+  }
+  if (packageDiff) {
+    evidence.packageDiff = true;
+  }
+  if (config.forges) {
+    evidence.forges = config.forges;
+  }
+
   const debugDump = args.includes("--debug-dump");
   const hasRunFlags =
     scope.present ||
@@ -221,58 +447,82 @@ function parseRunOptions(args: readonly string[]): ParsedRunOptions {
     dep.present ||
     risk.present ||
     output.present ||
+    network.present ||
+    policy.present ||
+    withNotes ||
+    transitive ||
+    packageDiff ||
     debugDump;
 
-  const resolved: RunOptions = {
-    scope: overrides.scope ?? DEFAULT_RUN_OPTIONS.scope,
-    target: overrides.target ?? DEFAULT_RUN_OPTIONS.target,
-    dep: overrides.dep ?? DEFAULT_RUN_OPTIONS.dep,
-    risk: overrides.risk ?? DEFAULT_RUN_OPTIONS.risk,
-    output: overrides.output ?? DEFAULT_RUN_OPTIONS.output,
+  // CLI flags override the project config, which overrides the built-in
+  // defaults.
+  const defaults: Partial<RunOptions> = {
+    ...pickRunDefaults(config),
+    ...overrides,
   };
+  const resolved: RunOptions = { ...DEFAULT_RUN_OPTIONS, ...defaults };
 
   return {
     hasRunFlags,
     debugDump,
+    evidence,
+    network: network.network,
+    policy: policy.policy,
     overrides,
+    defaults,
     resolved,
     errors,
   };
 }
 
-function parseInteractive(args: readonly string[]): boolean {
-  return args.includes("--interactive") || args.includes("-i");
-}
-
-export async function runCli(options: RunCliOptions): Promise<void> {
-  const stdout = options.stdout ?? process.stdout;
-  const stderr = options.stderr ?? process.stderr;
-  const args = options.argv.slice(2);
-  const command = parseCommand(args);
-
-  if (command === "version") {
-    const version = await readPackageVersion();
-    writeLine(
-      stdout,
-      version ? `next-updates v${version}` : "next-updates (unknown version)"
-    );
-    return;
-  }
-
-  if (command === "help") {
-    writeLine(stdout, HELP_TEXT);
+async function runApplyCommand(
+  args: readonly string[],
+  parsed: ParsedRunOptions,
+  stdout: NodeJS.WriteStream,
+  stderr: NodeJS.WriteStream
+): Promise<void> {
+  const report = parseStringFlag(args, "--report");
+  const verifyScripts = parseStringFlag(args, "--verify-scripts");
+  const flagError = report.error ?? verifyScripts.error;
+  if (flagError) {
+    writeLine(stderr, flagError);
     return;
   }
-
-  const parsed = parseRunOptions(args);
-  if (parsed.errors.length > 0) {
-    for (const error of parsed.errors) {
-      writeLine(stderr, error);
-    }
-    writeLine(stderr, "Run with --help to see valid options.");
-    return;
+  try {
+    await runNextUpdatesApply({
+      cwd: process.cwd(),
+      stdout,
+      stderr,
+      selectors: parseApplySelectors(args),
+      reportFile: report.value,
+      all: args.includes("--all"),
+      dryRun: args.includes("--dry-run"),
+      install: args.includes("--install"),
+      verify: args.includes("--verify"),
+      bisect: args.includes("--bisect"),
+      verifyScripts: verifyScripts.value
+        ? verifyScripts.value.split(",").map((script) => script.trim())
+        : defaultVerifyScripts,
+      scope: parsed.resolved.scope,
+      target: parsed.resolved.target,
+      dep: parsed.resolved.dep,
+      risk: parsed.resolved.risk,
+      evidence: parsed.evidence,
+      network: parsed.network,
+      policy: parsed.policy,
+    });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    stderr.write(`${message}\n`);
   }
+}
 
+async function runReportCommand(
+  args: readonly string[],
+  parsed: ParsedRunOptions,
+  stdout: NodeJS.WriteStream,
+  stderr: NodeJS.WriteStream
+): Promise<void> {
   const interactive = parseInteractive(args);
   if (!(interactive || parsed.hasRunFlags)) {
     const context = await collectNextUpdatesGuideContext(process.cwd());
@@ -287,7 +537,10 @@ export async function runCli(options: RunCliOptions): Promise<void> {
       await runNextUpdatesFlow({
         cwd: process.cwd(),
         ui,
-        defaults: parsed.overrides,
+        defaults: parsed.defaults,
+        evidence: parsed.evidence,
+        network: parsed.network,
+        policy: parsed.policy,
         debugDump: parsed.debugDump,
       });
       return;
@@ -301,12 +554,56 @@ export async function runCli(options: RunCliOptions): Promise<void> {
       dep: parsed.resolved.dep,
       risk: parsed.resolved.risk,
       output: parsed.resolved.output,
+      evidence: parsed.evidence,
+      network: parsed.network,
+      policy: parsed.policy,
       debugDump: parsed.debugDump,
     });
-    return;
   } catch (error: unknown) {
     const message = error instanceof Error ? error.message : "Unknown error";
     stderr.write(`${message}\n`);
+  }
+}
+
+function parseInteractive(args: readonly string[]): boolean {
+  return args.includes("--interactive") || args.includes("-i");
+}
+
+export async function runCli(options: RunCliOptions): Promise<void> {
+  const stdout = options.stdout ?? process.stdout;
+  const stderr = options.stderr ?? process.stderr;
+  const args = options.argv.slice(2);
+  const command = parseCommand(args);
+
+  if (command === "version") {
+    const version = await readPackageVersion();
+    writeLine(
+      stdout,
+      version ? `next-updates v${version}` : "next-updates (unknown version)"
+    );
     return;
   }
+
+  if (command === "help") {
+    writeLine(stdout, HELP_TEXT);
+    return;
+  }
+
+  const loaded = await loadNextUpdatesConfig(process.cwd());
+  const parsed = parseRunOptions(args, loaded.config);
+  const errors = [...loaded.errors, ...parsed.errors];
+  if (errors.length > 0) {
+    for (const error of errors) {
+      writeLine(stderr, error);
+    }
+    writeLine(stderr, "Run with --help to see valid options.");
+    return;
+  }
+
+  if (command === "apply") {
+    await runApplyCommand(args, parsed, stdout, stderr);
+    return;
+  }
+
+  await runReportCommand(args, parsed, stdout, stderr);
 }
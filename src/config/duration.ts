@@ -0,0 +1,18 @@
+const durationRegex = /^(\d+(?:\.\d+)?)\s*(m|h|d|w)?$/i;
+
+const unitMs: Record<string, number> = {
+  m: 60_000,
+  h: 3_600_000,
+  d: 86_400_000,
+  w: 604_800_000,
+};
+
+// "30m", "12h", "7d", "2w"; a bare number means days.
+export function parseDuration(value: string): number | null {
+  const match = durationRegex.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+  const unit = (match[2] ?? "d").toLowerCase();
+  return Number(match[1]) * (unitMs[unit] ?? unitMs.d ?? 0);
+}
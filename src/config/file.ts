@@ -0,0 +1,301 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { pathToFileURL } from "node:url";
+
+import { parseDuration } from "./duration";
+import {
+  depValues,
+  forgeValues,
+  type NextUpdatesEvidenceOptions,
+  type NextUpdatesPolicyOptions,
+  type NextUpdatesPromptResult,
+  type NextUpdatesTargetRule,
+  outputValues,
+  riskValues,
+  scopeValues,
+  targetValues,
+} from "./options";
+
+export type NextUpdatesConfig = Partial<NextUpdatesPromptResult> &
+  NextUpdatesPolicyOptions &
+  Pick<NextUpdatesEvidenceOptions, "forges">;
+
+export type LoadedNextUpdatesConfig = {
+  config: NextUpdatesConfig;
+  source: string | null;
+  errors: string[];
+};
+
+const configFileNames = [
+  "next-updates.config.json",
+  "next-updates.config.mjs",
+  "next-updates.config.ts",
+] as const;
+
+const packageJsonKey = "next-updates";
+
+// The first config file found wins; the package.json key is the fallback.
+export async function loadNextUpdatesConfig(
+  cwd: string
+): Promise<LoadedNextUpdatesConfig> {
+  for (const fileName of configFileNames) {
+    const filePath = path.resolve(cwd, fileName);
+    if (!(await fileExists(filePath))) {
+      continue;
+    }
+    try {
+      const raw = await readConfigModule(filePath);
+      return { source: fileName, ...validateConfig(raw, fileName) };
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      return {
+        config: {},
+        source: fileName,
+        errors: [`Failed to load ${fileName}: ${message}`],
+      };
+    }
+  }
+
+  const pkg = await readPackageJson(path.resolve(cwd, "package.json"));
+  if (pkg && packageJsonKey in pkg) {
+    const source = `package.json#${packageJsonKey}`;
+    return { source, ...validateConfig(pkg[packageJsonKey], source) };
+  }
+  return { config: {}, source: null, errors: [] };
+}
+
+async function readConfigModule(filePath: string): Promise<unknown> {
+  if (filePath.endsWith(".json")) {
+    return JSON.parse(await fs.readFile(filePath, "utf8"));
+  }
+  try {
+    const mod = (await import(pathToFileURL(filePath).href)) as {
+      default?: unknown;
+    };
+    return mod.default;
+  } catch (error: unknown) {
+    if (
+      filePath.endsWith(".ts") &&
+      (error as { code?: unknown }).code === "ERR_UNKNOWN_FILE_EXTENSION"
+    ) {
+      throw new Error(
+        "this Node.js version cannot load TypeScript; use Node.js 22.18+ or next-updates.config.{json,mjs}"
+      );
+    }
+    throw error;
+  }
+}
+
+function validateConfig(
+  raw: unknown,
+  source: string
+): { config: NextUpdatesConfig; errors: string[] } {
+  if (!isRecord(raw)) {
+    return {
+      config: {},
+      errors: [`Invalid config in ${source}: expected an object.`],
+    };
+  }
+
+  const errors: string[] = [];
+  const config: NextUpdatesConfig = {};
+  const enumFields = [
+    ["scope", scopeValues],
+    ["target", targetValues],
+    ["dep", depValues],
+    ["risk", riskValues],
+    ["output", outputValues],
+  ] as const;
+  for (const [field, allowed] of enumFields) {
+    const value = raw[field];
+    if (value === undefined) {
+      continue;
+    }
+    if (
+      typeof value === "string" &&
+      (allowed as readonly string[]).includes(value)
+    ) {
+      Object.assign(config, { [field]: value });
+    } else {
+      errors.push(`Invalid ${field} in ${source}: ${String(value)}.`);
+    }
+  }
+
+  const policyFields = [
+    ["ignore", readStringList, "a list of names or globs"],
+    [
+      "targets",
+      readTargets,
+      `package names mapped to ${targetValues.join("|")}`,
+    ],
+    [
+      "policies",
+      readPolicies,
+      "a list of { packages?, dependencyTypes?, workspaces?, target } rules",
+    ],
+    ["minAge", readMinAge, "a duration such as 7d, 12h or 2w"],
+    [
+      "workspaces",
+      readWorkspaceFilter,
+      "{ include?: string[], exclude?: string[] }",
+    ],
+    ["forges", readForges, `hosts mapped to ${forgeValues.join("|")}`],
+  ] as const;
+  for (const [field, read, expected] of policyFields) {
+    if (raw[field] === undefined) {
+      continue;
+    }
+    const value = read(raw[field]);
+    if (value) {
+      Object.assign(config, { [field]: value });
+    } else {
+      errors.push(`Invalid ${field} in ${source}: expected ${expected}.`);
+    }
+  }
+
+  return { config, errors };
+}
+
+function readStringList(value: unknown): string[] | null {
+  if (!Array.isArray(value)) {
+    return null;
+  }
+  return value.every((entry) => typeof entry === "string") ? value : null;
+}
+
+function readTargets(
+  value: unknown
+): NextUpdatesPolicyOptions["targets"] | null {
+  if (!isRecord(value)) {
+    return null;
+  }
+  const targets: NonNullable<NextUpdatesPolicyOptions["targets"]> = {};
+  for (const [name, target] of Object.entries(value)) {
+    const match = targetValues.find((allowed) => allowed === target);
+    if (!match) {
+      return null;
+    }
+    targets[name] = match;
+  }
+  return targets;
+}
+
+function readForges(
+  value: unknown
+): NextUpdatesEvidenceOptions["forges"] | null {
+  if (!isRecord(value)) {
+    return null;
+  }
+  const forges: NonNullable<NextUpdatesEvidenceOptions["forges"]> = {};
+  for (const [host, forge] of Object.entries(value)) {
+    const match = forgeValues.find((allowed) => allowed === forge);
+    if (!match) {
+      return null;
+    }
+    forges[host.toLowerCase()] = match;
+  }
+  return forges;
+}
+
+function readMinAge(value: unknown): string | null {
+  const text = typeof value === "number" ? String(value) : value;
+  return typeof text === "string" && parseDuration(text) !== null ? text : null;
+}
+
+function readPolicies(value: unknown): NextUpdatesTargetRule[] | null {
+  if (!Array.isArray(value)) {
+    return null;
+  }
+  const rules: NextUpdatesTargetRule[] = [];
+  for (const entry of value) {
+    const rule = readPolicyRule(entry);
+    if (!rule) {
+      return null;
+    }
+    rules.push(rule);
+  }
+  return rules;
+}
+
+function readPolicyRule(value: unknown): NextUpdatesTargetRule | null {
+  if (!isRecord(value)) {
+    return null;
+  }
+  const target = targetValues.find((allowed) => allowed === value.target);
+  const packages = readOptionalStringList(value.packages);
+  const workspaces = readOptionalStringList(value.workspaces);
+  const dependencyTypes = readOptionalStringList(value.dependencyTypes);
+  const validTypes = dependencyTypes?.every(
+    (type) => type !== "all" && depValues.some((allowed) => allowed === type)
+  );
+  if (
+    !(
+      target &&
+      packages !== null &&
+      workspaces !== null &&
+      validTypes !== false
+    )
+  ) {
+    return null;
+  }
+  return {
+    ...(packages ? { packages } : {}),
+    ...(dependencyTypes
+      ? {
+          dependencyTypes: dependencyTypes as NonNullable<
+            NextUpdatesTargetRule["dependencyTypes"]
+          >,
+        }
+      : {}),
+    ...(workspaces ? { workspaces } : {}),
+    target,
+  };
+}
+
+// undefined when absent, null when present but not a string list.
+function readOptionalStringList(value: unknown): string[] | null | undefined {
+  return value === undefined ? undefined : readStringList(value);
+}
+
+function readWorkspaceFilter(
+  value: unknown
+): NextUpdatesPolicyOptions["workspaces"] | null {
+  if (!isRecord(value)) {
+    return null;
+  }
+  const include =
+    value.include === undefined ? [] : readStringList(value.include);
+  const exclude =
+    value.exclude === undefined ? [] : readStringList(value.exclude);
+  if (!(include && exclude)) {
+    return null;
+  }
+  return {
+    ...(include.length > 0 ? { include } : {}),
+    ...(exclude.length > 0 ? { exclude } : {}),
+  };
+}
+
+async function readPackageJson(
+  filePath: string
+): Promise<Record<string, unknown> | null> {
+  try {
+    const parsed: unknown = JSON.parse(await fs.readFile(filePath, "utf8"));
+    return isRecord(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+async function fileExists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
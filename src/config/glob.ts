@@ -0,0 +1,32 @@
+const globSpecialRegex = /[.+?^${}()|[\]\\]/g;
+const backslashRegex = /\\/g;
+
+// `*` matches within one path/name segment, `**` across segments; no other
+// glob syntax is supported.
+export function createGlobMatcher(
+  patterns: readonly string[]
+): (value: string) => boolean {
+  const regexes = patterns.map(compileGlob);
+  return (value) => {
+    const normalized = value.replace(backslashRegex, "/");
+    return regexes.some((regex) => regex.test(normalized));
+  };
+}
+
+function compileGlob(pattern: string): RegExp {
+  let source = "";
+  const escaped = pattern.replace(globSpecialRegex, "\\$&");
+  for (let index = 0; index < escaped.length; index += 1) {
+    if (escaped[index] !== "*") {
+      source += escaped[index];
+      continue;
+    }
+    if (escaped[index + 1] === "*") {
+      source += ".*";
+      index += 1;
+    } else {
+      source += "[^/]*";
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
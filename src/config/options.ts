@@ -4,7 +4,13 @@ export type NextUpdatesScope = (typeof scopeValues)[number];
 export const targetValues = ["latest", "minor", "patch"] as const;
 export type NextUpdatesTarget = (typeof targetValues)[number];
 
-export const depValues = ["all", "dependencies", "devDependencies"] as const;
+export const depValues = [
+  "all",
+  "dependencies",
+  "devDependencies",
+  "optionalDependencies",
+  "peerDependencies",
+] as const;
 export type NextUpdatesDep = (typeof depValues)[number];
 
 export const riskValues = [
@@ -13,12 +19,63 @@ export const riskValues = [
   "non-major",
   "prerelease-only",
   "unknown-only",
+  "breaking-only",
+  "security-only",
+  "deprecated-only",
 ] as const;
 export type NextUpdatesRisk = (typeof riskValues)[number];
 
 export const outputValues = ["prompt", "json"] as const;
 export type NextUpdatesOutput = (typeof outputValues)[number];
 
+export const forgeValues = ["github", "gitlab", "bitbucket", "gitea"] as const;
+export type NextUpdatesForge = (typeof forgeValues)[number];
+
+export type NextUpdatesNetworkOptions = {
+  fixturesDir?: string;
+  advisoriesFile?: string;
+  cache?: boolean;
+  cacheDir?: string;
+  timeoutMs?: number;
+  concurrency?: number;
+};
+
+export type NextUpdatesEvidenceOptions = {
+  withNotes?: boolean;
+  // Walk the lockfile graph for outdated or duplicated transitive packages.
+  transitive?: boolean;
+  // Download installed and target tarballs and diff their contents.
+  packageDiff?: boolean;
+  // Self-hosted forge hosts on top of github.com, gitlab.com, bitbucket.org
+  // and codeberg.org, e.g. { "git.example.com": "gitlab" }.
+  forges?: Record<string, NextUpdatesForge>;
+};
+
+// A target rule matches when every listed dimension matches; omitted
+// dimensions match anything. Workspaces are directories ("." is the root).
+export type NextUpdatesTargetRule = {
+  packages?: string[];
+  dependencyTypes?: Exclude<NextUpdatesDep, "all">[];
+  workspaces?: string[];
+  target: NextUpdatesTarget;
+};
+
+// Project policy from next-updates.config.* (or package.json#next-updates).
+// Package entries are names or globs (`@types/*`); workspace entries are
+// globs over workspace directories (`packages/legacy-*`). The first matching
+// `policies` rule wins, then `targets`, then the run's --target.
+export type NextUpdatesPolicyOptions = {
+  ignore?: string[];
+  targets?: Record<string, NextUpdatesTarget>;
+  policies?: NextUpdatesTargetRule[];
+  // Minimum release age for targets ("7d", "12h"); see --min-age.
+  minAge?: string;
+  workspaces?: {
+    include?: string[];
+    exclude?: string[];
+  };
+};
+
 export type NextUpdatesPromptResult = {
   scope: NextUpdatesScope;
   target: NextUpdatesTarget;
@@ -0,0 +1,146 @@
+import path from "node:path";
+
+import { findLockfile } from "../lockfiles/detect";
+import {
+  type NextUpdatesApplyChange,
+  planApplyChanges,
+  writeApplyEdits,
+} from "./plan";
+import {
+  buildInstallArgs,
+  restoreSnapshot,
+  runVerifySteps,
+  takeSnapshot,
+  type VerifyRunOptions,
+} from "./verify";
+
+export type NextUpdatesCandidateIdentity = {
+  packageFile: string;
+  packageName: string;
+};
+
+export type NextUpdatesBisectResult = {
+  // "baseline-failed" when verification fails with no upgrade applied; no
+  // candidate is blamed then.
+  status: "passed" | "isolated" | "baseline-failed";
+  candidates: NextUpdatesCandidateIdentity[];
+  failing: NextUpdatesCandidateIdentity[];
+  runs: number;
+};
+
+type TrialContext = {
+  lockfilePath: string | null;
+  // Package files of the whole batch; their workspaces are verified on every
+  // trial, including the empty baseline.
+  packageFiles: string[];
+};
+
+// Narrows a failing batch to a minimal failing subset. Every trial applies a
+// subset on top of the untouched tree, verifies the workspaces of the whole
+// batch and restores the tree, so the repo ends exactly as it started. A
+// baseline trial with nothing applied runs first, so a tree that already
+// fails (or flakes) is not blamed on the first candidate.
+export async function bisectApplyChanges(
+  options: VerifyRunOptions & { changes: readonly NextUpdatesApplyChange[] }
+): Promise<NextUpdatesBisectResult> {
+  const trial: TrialContext = {
+    lockfilePath: (await findLockfile(options.cwd))?.path ?? null,
+    packageFiles: Array.from(
+      new Set(options.changes.map((change) => change.packageFile))
+    ),
+  };
+  let runs = 0;
+  const fails = async (
+    subset: readonly NextUpdatesApplyChange[]
+  ): Promise<boolean> => {
+    runs += 1;
+    return await trialFails(options, trial, subset, `run ${runs}`);
+  };
+
+  const candidates = options.changes.map(toIdentity);
+  const baselineFailed = await fails([]);
+  let failing: NextUpdatesApplyChange[] = [];
+  if (!baselineFailed && (await fails(options.changes))) {
+    failing = await minimizeFailing(options.changes, [], fails);
+  }
+
+  // Bring node_modules back in line with the restored manifests.
+  await options.runner(
+    options.packageManager,
+    buildInstallArgs(options.packageManager),
+    { cwd: options.cwd }
+  );
+  let status: NextUpdatesBisectResult["status"] = "passed";
+  if (baselineFailed) {
+    status = "baseline-failed";
+  } else if (failing.length > 0) {
+    status = "isolated";
+  }
+  return {
+    status,
+    candidates,
+    failing: failing.map(toIdentity),
+    runs,
+  };
+}
+
+// Recursive halving with interference: when neither half fails alone, each
+// half is minimized while the other stays applied. Expects `context` plus
+// `changes` to fail.
+async function minimizeFailing(
+  changes: readonly NextUpdatesApplyChange[],
+  context: readonly NextUpdatesApplyChange[],
+  fails: (subset: readonly NextUpdatesApplyChange[]) => Promise<boolean>
+): Promise<NextUpdatesApplyChange[]> {
+  if (changes.length <= 1) {
+    return [...changes];
+  }
+
+  const middle = Math.ceil(changes.length / 2);
+  const left = changes.slice(0, middle);
+  const right = changes.slice(middle);
+  if (await fails([...context, ...left])) {
+    return await minimizeFailing(left, context, fails);
+  }
+  if (await fails([...context, ...right])) {
+    return await minimizeFailing(right, context, fails);
+  }
+
+  const leftFailing = await minimizeFailing(
+    left,
+    [...context, ...right],
+    fails
+  );
+  const rightFailing = await minimizeFailing(
+    right,
+    [...context, ...leftFailing],
+    fails
+  );
+  return [...leftFailing, ...rightFailing];
+}
+
+async function trialFails(
+  options: VerifyRunOptions,
+  trial: TrialContext,
+  subset: readonly NextUpdatesApplyChange[],
+  label: string
+): Promise<boolean> {
+  const plan = await planApplyChanges(options.cwd, subset);
+  const snapshot = await takeSnapshot([
+    ...plan.edits.map((edit) => path.resolve(options.cwd, edit.packageFile)),
+    ...(trial.lockfilePath ? [trial.lockfilePath] : []),
+  ]);
+  try {
+    await writeApplyEdits(options.cwd, plan.edits);
+    const steps = await runVerifySteps(options, label, trial.packageFiles);
+    return steps.some((step) => step.exitCode !== 0);
+  } finally {
+    await restoreSnapshot(snapshot);
+  }
+}
+
+function toIdentity(
+  change: NextUpdatesApplyChange
+): NextUpdatesCandidateIdentity {
+  return { packageFile: change.packageFile, packageName: change.packageName };
+}
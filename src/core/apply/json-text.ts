@@ -0,0 +1,117 @@
+// Minimal JSON text scanner used to edit package.json values in place, so the
+// file keeps its indentation, key order and line endings.
+
+export type TextSpan = {
+  start: number;
+  end: number;
+};
+
+const whitespaceRegex = /\s/;
+
+// Returns the span of the value stored under `key` in the object that opens
+// at `objectStart`; nested objects are skipped.
+export function findMemberValue(
+  text: string,
+  objectStart: number,
+  key: string
+): TextSpan | null {
+  if (text[objectStart] !== "{") {
+    return null;
+  }
+
+  let index = skipWhitespace(text, objectStart + 1);
+  while (index < text.length && text[index] === '"') {
+    const keyEnd = skipString(text, index);
+    const name = parseStringToken(text.slice(index, keyEnd));
+    const colon = skipWhitespace(text, keyEnd);
+    if (text[colon] !== ":") {
+      return null;
+    }
+    const valueStart = skipWhitespace(text, colon + 1);
+    const valueEnd = skipValue(text, valueStart);
+    if (name === key) {
+      return { start: valueStart, end: valueEnd };
+    }
+    index = skipWhitespace(text, valueEnd);
+    if (text[index] !== ",") {
+      return null;
+    }
+    index = skipWhitespace(text, index + 1);
+  }
+  return null;
+}
+
+export function findRootObjectStart(text: string): number | null {
+  const index = skipWhitespace(text, text.charCodeAt(0) === 0xfe_ff ? 1 : 0);
+  return text[index] === "{" ? index : null;
+}
+
+export function parseStringToken(token: string): string | null {
+  try {
+    const value: unknown = JSON.parse(token);
+    return typeof value === "string" ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+function skipWhitespace(text: string, index: number): number {
+  let cursor = index;
+  while (cursor < text.length && whitespaceRegex.test(text[cursor] ?? "")) {
+    cursor += 1;
+  }
+  return cursor;
+}
+
+function skipString(text: string, index: number): number {
+  let cursor = index + 1;
+  while (cursor < text.length) {
+    const char = text[cursor];
+    if (char === "\\") {
+      cursor += 2;
+      continue;
+    }
+    if (char === '"') {
+      return cursor + 1;
+    }
+    cursor += 1;
+  }
+  return cursor;
+}
+
+function skipValue(text: string, index: number): number {
+  const char = text[index];
+  if (char === '"') {
+    return skipString(text, index);
+  }
+  if (char === "{" || char === "[") {
+    return skipContainer(text, index);
+  }
+  let cursor = index;
+  while (cursor < text.length && !",}]".includes(text[cursor] ?? "")) {
+    cursor += 1;
+  }
+  return cursor;
+}
+
+function skipContainer(text: string, index: number): number {
+  let depth = 0;
+  let cursor = index;
+  while (cursor < text.length) {
+    const char = text[cursor];
+    if (char === '"') {
+      cursor = skipString(text, cursor);
+      continue;
+    }
+    if (char === "{" || char === "[") {
+      depth += 1;
+    } else if (char === "}" || char === "]") {
+      depth -= 1;
+      if (depth === 0) {
+        return cursor + 1;
+      }
+    }
+    cursor += 1;
+  }
+  return cursor;
+}
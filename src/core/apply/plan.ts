@@ -0,0 +1,219 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+
+import { resolveTargetRange } from "../candidates/ranges";
+import type { DependencyType, NextUpdatesReport } from "../report/types";
+import {
+  findMemberValue,
+  findRootObjectStart,
+  parseStringToken,
+} from "./json-text";
+
+export type NextUpdatesApplyChange = {
+  packageFile: string;
+  dependencyType: DependencyType;
+  packageName: string;
+  fromRange: string;
+  toRange: string;
+};
+
+export type NextUpdatesApplySkip = {
+  change: NextUpdatesApplyChange;
+  reason: string;
+};
+
+export type NextUpdatesPackageFileEdit = {
+  packageFile: string;
+  before: string;
+  after: string;
+  changes: NextUpdatesApplyChange[];
+};
+
+export type NextUpdatesApplyPlan = {
+  edits: NextUpdatesPackageFileEdit[];
+  skipped: NextUpdatesApplySkip[];
+  unmatched: string[];
+};
+
+const unknownTypeFields = [
+  "dependencies",
+  "devDependencies",
+  "optionalDependencies",
+  "peerDependencies",
+] as const;
+
+export async function readNextUpdatesReportJson(
+  filePath: string
+): Promise<NextUpdatesReport> {
+  const raw = await fs.readFile(filePath, "utf8");
+  const parsed: unknown = JSON.parse(raw);
+  if (
+    typeof parsed !== "object" ||
+    parsed === null ||
+    typeof (parsed as { packages?: unknown }).packages !== "object"
+  ) {
+    throw new Error(`Invalid next-updates report at ${filePath}`);
+  }
+  return parsed as NextUpdatesReport;
+}
+
+// Selectors are package names, optionally prefixed with the package file
+// (`packages/app/package.json:react`); an empty selection picks everything.
+export function selectApplyChanges(
+  report: NextUpdatesReport,
+  selectors: readonly string[]
+): { changes: NextUpdatesApplyChange[]; unmatched: string[] } {
+  const changes: NextUpdatesApplyChange[] = [];
+  const matched = new Set<string>();
+  for (const change of listReportChanges(report)) {
+    const selector = selectors.find(
+      (entry) =>
+        entry === change.packageName ||
+        entry === `${change.packageFile}:${change.packageName}`
+    );
+    if (selector) {
+      matched.add(selector);
+    }
+    if (selector || selectors.length === 0) {
+      changes.push(change);
+    }
+  }
+  return {
+    changes,
+    unmatched: selectors.filter((selector) => !matched.has(selector)),
+  };
+}
+
+function listReportChanges(
+  report: NextUpdatesReport
+): NextUpdatesApplyChange[] {
+  const changes: NextUpdatesApplyChange[] = [];
+  for (const packageFile of Object.keys(report.packages).sort()) {
+    const fileGroup = report.packages[packageFile] ?? {};
+    for (const [dependencyType, depGroup] of Object.entries(fileGroup)) {
+      for (const [packageName, details] of Object.entries(depGroup ?? {})) {
+        changes.push({
+          packageFile,
+          dependencyType: dependencyType as DependencyType,
+          packageName,
+          fromRange: details.current.range,
+          toRange: resolveTargetRange(
+            details.current.range,
+            details.target.range
+          ),
+        });
+      }
+    }
+  }
+  return changes;
+}
+
+export async function planApplyChanges(
+  cwd: string,
+  changes: readonly NextUpdatesApplyChange[]
+): Promise<Omit<NextUpdatesApplyPlan, "unmatched">> {
+  const byFile = new Map<string, NextUpdatesApplyChange[]>();
+  for (const change of changes) {
+    byFile.set(change.packageFile, [
+      ...(byFile.get(change.packageFile) ?? []),
+      change,
+    ]);
+  }
+
+  const edits: NextUpdatesPackageFileEdit[] = [];
+  const skipped: NextUpdatesApplySkip[] = [];
+  for (const [packageFile, fileChanges] of byFile) {
+    if (fileChanges.some((change) => change.dependencyType === "catalog")) {
+      skipped.push(
+        ...fileChanges.map((change) => ({
+          change,
+          reason: "catalog entries are edited in pnpm-workspace.yaml",
+        }))
+      );
+      continue;
+    }
+    const before = await fs.readFile(path.resolve(cwd, packageFile), "utf8");
+    let after = before;
+    const applied: NextUpdatesApplyChange[] = [];
+    for (const change of fileChanges) {
+      const result = rewriteDependencyRange(after, change);
+      if (typeof result === "string") {
+        after = result;
+        applied.push(change);
+      } else {
+        skipped.push({ change, reason: result.reason });
+      }
+    }
+    if (applied.length > 0 && after !== before) {
+      edits.push({ packageFile, before, after, changes: applied });
+    }
+  }
+  return { edits, skipped };
+}
+
+export function rewriteDependencyRange(
+  text: string,
+  change: NextUpdatesApplyChange
+): string | { reason: string } {
+  const root = findRootObjectStart(text);
+  if (root === null) {
+    return { reason: "package file is not a JSON object" };
+  }
+
+  const fields =
+    change.dependencyType === "unknown"
+      ? unknownTypeFields
+      : [change.dependencyType];
+  let found: string | null = null;
+  for (const field of fields) {
+    const section = findMemberValue(text, root, field);
+    const value = section
+      ? findMemberValue(text, section.start, change.packageName)
+      : null;
+    if (!value) {
+      continue;
+    }
+    found = parseStringToken(text.slice(value.start, value.end));
+    if (found === change.fromRange) {
+      return `${text.slice(0, value.start)}${JSON.stringify(change.toRange)}${text.slice(value.end)}`;
+    }
+  }
+
+  return {
+    reason:
+      found === null
+        ? "dependency not found"
+        : `range is now ${found}, expected ${change.fromRange}`,
+  };
+}
+
+export async function writeApplyEdits(
+  cwd: string,
+  edits: readonly NextUpdatesPackageFileEdit[]
+): Promise<void> {
+  for (const edit of edits) {
+    await fs.writeFile(path.resolve(cwd, edit.packageFile), edit.after);
+  }
+}
+
+export function formatApplyDiff(
+  edits: readonly NextUpdatesPackageFileEdit[]
+): string {
+  const lines: string[] = [];
+  for (const edit of edits) {
+    lines.push(`--- a/${edit.packageFile}`, `+++ b/${edit.packageFile}`);
+    const beforeLines = edit.before.split("\n");
+    const afterLines = edit.after.split("\n");
+    for (let index = 0; index < beforeLines.length; index += 1) {
+      if (beforeLines[index] === afterLines[index]) {
+        continue;
+      }
+      lines.push(
+        `@@ -${index + 1} +${index + 1} @@`,
+        `-${beforeLines[index]}`,
+        `+${afterLines[index]}`
+      );
+    }
+  }
+  return lines.length > 0 ? `${lines.join("\n")}\n` : "";
+}
@@ -0,0 +1,209 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+
+import type { CommandRunner } from "../../infra/process/run";
+import type { NextUpdatesUpgradeGroup } from "../candidates/groups";
+import { findLockfile, type LockfileType } from "../lockfiles/detect";
+import {
+  type NextUpdatesApplyChange,
+  planApplyChanges,
+  writeApplyEdits,
+} from "./plan";
+
+export const defaultVerifyScripts = ["typecheck", "test", "build"] as const;
+
+export type NextUpdatesVerifyStep = {
+  workspace: string;
+  command: string;
+  exitCode: number;
+};
+
+export type NextUpdatesVerification = {
+  groupId: string;
+  packages: string[];
+  status: "passed" | "failed";
+  rolledBack: boolean;
+  steps: NextUpdatesVerifyStep[];
+};
+
+export type ApplyGroup = {
+  id: string;
+  changes: NextUpdatesApplyChange[];
+};
+
+export type VerifyRunOptions = {
+  cwd: string;
+  packageManager: LockfileType;
+  scripts: readonly string[];
+  runner: CommandRunner;
+  onStep?: (label: string, step: NextUpdatesVerifyStep) => void;
+};
+
+export type FileSnapshot = Map<string, string | null>;
+
+// Changes whose packages share an upgrade group move together; the rest are
+// verified one package at a time.
+export function partitionApplyChanges(
+  changes: readonly NextUpdatesApplyChange[],
+  upgradeGroups: readonly NextUpdatesUpgradeGroup[]
+): ApplyGroup[] {
+  const groupByPackage = new Map<string, string>();
+  for (const group of upgradeGroups) {
+    for (const member of group.packages) {
+      groupByPackage.set(member.packageName, group.id);
+    }
+  }
+
+  const groups = new Map<string, NextUpdatesApplyChange[]>();
+  for (const change of changes) {
+    const id = groupByPackage.get(change.packageName) ?? change.packageName;
+    groups.set(id, [...(groups.get(id) ?? []), change]);
+  }
+  return Array.from(groups, ([id, groupChanges]) => ({
+    id,
+    changes: groupChanges,
+  }));
+}
+
+export function buildInstallArgs(packageManager: LockfileType): string[] {
+  // pnpm defaults to a frozen lockfile under CI, which rejects range edits.
+  return packageManager === "pnpm"
+    ? ["install", "--no-frozen-lockfile"]
+    : ["install"];
+}
+
+// Applies each group on top of the previous passing ones, installs, runs the
+// scripts of every affected workspace and restores package files and the
+// lockfile when anything fails.
+export async function verifyApplyGroups(
+  options: VerifyRunOptions & { groups: readonly ApplyGroup[] }
+): Promise<NextUpdatesVerification[]> {
+  const lockfilePath = (await findLockfile(options.cwd))?.path ?? null;
+  const results: NextUpdatesVerification[] = [];
+  let dirty = false;
+
+  for (const group of options.groups) {
+    const plan = await planApplyChanges(options.cwd, group.changes);
+    if (plan.edits.length === 0) {
+      continue;
+    }
+    const snapshot = await takeSnapshot([
+      ...plan.edits.map((edit) => path.resolve(options.cwd, edit.packageFile)),
+      ...(lockfilePath ? [lockfilePath] : []),
+    ]);
+    await writeApplyEdits(options.cwd, plan.edits);
+
+    const steps = await runVerifySteps(
+      options,
+      group.id,
+      plan.edits.map((edit) => edit.packageFile)
+    );
+    const passed = steps.every((step) => step.exitCode === 0);
+    if (!passed) {
+      await restoreSnapshot(snapshot);
+    }
+    dirty = !passed;
+    results.push({
+      groupId: group.id,
+      packages: Array.from(
+        new Set(group.changes.map((change) => change.packageName))
+      ).sort(),
+      status: passed ? "passed" : "failed",
+      rolledBack: !passed,
+      steps,
+    });
+  }
+
+  if (dirty) {
+    // Bring node_modules back in line with the restored manifests.
+    await options.runner(
+      options.packageManager,
+      buildInstallArgs(options.packageManager),
+      { cwd: options.cwd }
+    );
+  }
+  return results;
+}
+
+// Installs at the root, then runs the configured scripts each affected
+// workspace defines; stops at the first failure.
+export async function runVerifySteps(
+  options: VerifyRunOptions,
+  label: string,
+  packageFiles: readonly string[]
+): Promise<NextUpdatesVerifyStep[]> {
+  const steps: NextUpdatesVerifyStep[] = [];
+  const run = async (workspace: string, args: string[]): Promise<boolean> => {
+    const result = await options.runner(options.packageManager, args, {
+      cwd: path.resolve(options.cwd, workspace),
+    });
+    const step = {
+      workspace,
+      command: [options.packageManager, ...args].join(" "),
+      exitCode: result.exitCode,
+    };
+    steps.push(step);
+    options.onStep?.(label, step);
+    return result.exitCode === 0;
+  };
+
+  if (!(await run(".", buildInstallArgs(options.packageManager)))) {
+    return steps;
+  }
+
+  const workspaces = Array.from(
+    new Set(packageFiles.map((packageFile) => path.dirname(packageFile)))
+  ).sort();
+  for (const workspace of workspaces) {
+    const available = await readScriptNames(
+      path.resolve(options.cwd, workspace, "package.json")
+    );
+    for (const script of options.scripts) {
+      if (available.has(script) && !(await run(workspace, ["run", script]))) {
+        return steps;
+      }
+    }
+  }
+  return steps;
+}
+
+async function readScriptNames(packageJsonPath: string): Promise<Set<string>> {
+  try {
+    const parsed: unknown = JSON.parse(
+      await fs.readFile(packageJsonPath, "utf8")
+    );
+    const scripts =
+      typeof parsed === "object" && parsed !== null
+        ? (parsed as { scripts?: unknown }).scripts
+        : null;
+    return typeof scripts === "object" && scripts !== null
+      ? new Set(Object.keys(scripts))
+      : new Set();
+  } catch {
+    return new Set();
+  }
+}
+
+export async function takeSnapshot(
+  filePaths: readonly string[]
+): Promise<FileSnapshot> {
+  const snapshot: FileSnapshot = new Map();
+  for (const filePath of filePaths) {
+    try {
+      snapshot.set(filePath, await fs.readFile(filePath, "utf8"));
+    } catch {
+      snapshot.set(filePath, null);
+    }
+  }
+  return snapshot;
+}
+
+export async function restoreSnapshot(snapshot: FileSnapshot): Promise<void> {
+  for (const [filePath, contents] of snapshot) {
+    if (contents === null) {
+      await fs.rm(filePath, { force: true });
+    } else {
+      await fs.writeFile(filePath, contents);
+    }
+  }
+}
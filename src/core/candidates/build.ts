@@ -1,6 +1,9 @@
 import fs from "node:fs/promises";
 import path from "node:path";
 
+import { subset, validRange } from "semver";
+
+import type { NextUpdatesDep } from "../../config/options";
 import type { InstalledVersionLookup } from "../lockfiles/detect";
 import type {
   NcuUpgraded,
@@ -11,36 +14,56 @@ import { isWorkspacesResult } from "../ncu/normalize";
 import type { DependencyType, NextUpdatesCandidateBase } from "../report/types";
 import { dependencyTypeOrder } from "../report/types";
 
-type PackageJson = {
-  dependencies?: Record<string, string>;
-  devDependencies?: Record<string, string>;
+export type DependencyField = Exclude<DependencyType, "catalog" | "unknown">;
+
+type PackageJson = Partial<Record<DependencyField, Record<string, string>>>;
+
+export type CandidateBuildContext = {
+  dep: NextUpdatesDep;
+  installedVersionLookup: InstalledVersionLookup;
+  targetVersions: Map<string, string>;
 };
 
-export function buildCandidates(
+export async function buildCandidates(
   cwd: string,
   upgraded: NcuUpgraded,
-  installedVersionLookup: InstalledVersionLookup,
-  targetVersions: Map<string, string>
+  context: CandidateBuildContext
 ): Promise<NextUpdatesCandidateBase[]> {
   if (upgraded === undefined) {
-    return Promise.resolve([]);
+    return [];
   }
 
-  if (isWorkspacesResult(upgraded)) {
-    return buildCandidatesFromWorkspaces(
-      cwd,
-      upgraded,
-      installedVersionLookup,
-      targetVersions
+  const candidates = isWorkspacesResult(upgraded)
+    ? await buildCandidatesFromWorkspaces(cwd, upgraded, context)
+    : await buildCandidatesFromRoot(cwd, upgraded as NcuUpgradedFlat, context);
+  return candidates.flatMap((candidate) => {
+    if (candidate.dependencyType !== "peerDependencies") {
+      return [candidate];
+    }
+    const range = widenPeerRange(
+      candidate.current.range,
+      candidate.target.range
     );
-  }
+    return range === null
+      ? []
+      : [{ ...candidate, target: { ...candidate.target, range } }];
+  });
+}
 
-  return buildCandidatesFromRoot(
-    cwd,
-    upgraded as NcuUpgradedFlat,
-    installedVersionLookup,
-    targetVersions
-  );
+// Consumers of a library may still be on the old peer major, so the suggested
+// peer range keeps the current one and adds the target with `||`. Returns null
+// when the current range already admits every version of the target range.
+export function widenPeerRange(
+  currentRange: string,
+  targetRange: string
+): string | null {
+  if (validRange(currentRange) === null || validRange(targetRange) === null) {
+    return targetRange;
+  }
+  if (subset(targetRange, currentRange)) {
+    return null;
+  }
+  return `${currentRange} || ${targetRange}`;
 }
 
 export function sortCandidates<T extends NextUpdatesCandidateBase>(
@@ -63,20 +86,24 @@ export function sortCandidates<T extends NextUpdatesCandidateBase>(
 async function buildCandidatesFromWorkspaces(
   cwd: string,
   upgraded: NcuUpgradedWorkspaces,
-  installedVersionLookup: InstalledVersionLookup,
-  targetVersions: Map<string, string>
+  context: CandidateBuildContext
 ): Promise<NextUpdatesCandidateBase[]> {
   const candidates: NextUpdatesCandidateBase[] = [];
   for (const [packageFileRelative, upgradedMap] of Object.entries(upgraded)) {
+    // ncu adds pnpm catalogs as a pseudo package file; see ./catalogs.
+    if (path.basename(packageFileRelative) !== "package.json") {
+      continue;
+    }
     const packageFile = path.resolve(cwd, packageFileRelative);
     const packageJson = await readPackageJson(packageFile);
 
     for (const [packageName, suggestedRange] of Object.entries(upgradedMap)) {
       const { dependencyType, currentRange } = getDependencyTypeAndCurrentRange(
         packageJson,
-        packageName
+        packageName,
+        context.dep
       );
-      const installedVersion = installedVersionLookup(
+      const installedVersion = context.installedVersionLookup(
         packageFileRelative,
         packageName,
         currentRange
@@ -92,7 +119,7 @@ async function buildCandidatesFromWorkspaces(
         },
         target: {
           range: suggestedRange,
-          version: targetVersions.get(packageName) ?? null,
+          version: context.targetVersions.get(packageName) ?? null,
         },
       });
     }
@@ -103,17 +130,17 @@ async function buildCandidatesFromWorkspaces(
 async function buildCandidatesFromRoot(
   cwd: string,
   upgraded: NcuUpgradedFlat,
-  installedVersionLookup: InstalledVersionLookup,
-  targetVersions: Map<string, string>
+  context: CandidateBuildContext
 ): Promise<NextUpdatesCandidateBase[]> {
   const packageFile = path.resolve(cwd, "package.json");
   const packageJson = await readPackageJson(packageFile);
   return Object.entries(upgraded).map(([packageName, suggestedRange]) => {
     const { dependencyType, currentRange } = getDependencyTypeAndCurrentRange(
       packageJson,
-      packageName
+      packageName,
+      context.dep
     );
-    const installedVersion = installedVersionLookup(
+    const installedVersion = context.installedVersionLookup(
       "package.json",
       packageName,
       currentRange
@@ -129,24 +156,31 @@ async function buildCandidatesFromRoot(
       },
       target: {
         range: suggestedRange,
-        version: targetVersions.get(packageName) ?? null,
+        version: context.targetVersions.get(packageName) ?? null,
       },
     };
   });
 }
 
+// The sections one ncu pass checks, in the order a name listed in several of
+// them is attributed. Peers of "all" get their own pass (see ncuPassesForDep).
+export function dependencyFieldsForDep(dep: NextUpdatesDep): DependencyField[] {
+  if (dep === "all") {
+    return ["dependencies", "devDependencies", "optionalDependencies"];
+  }
+  return [dep];
+}
+
 function getDependencyTypeAndCurrentRange(
   packageJson: PackageJson,
-  packageName: string
+  packageName: string,
+  dep: NextUpdatesDep
 ): { dependencyType: DependencyType; currentRange: string } {
-  const fromDeps = packageJson.dependencies?.[packageName];
-  if (typeof fromDeps === "string") {
-    return { dependencyType: "dependencies", currentRange: fromDeps };
-  }
-
-  const fromDevDeps = packageJson.devDependencies?.[packageName];
-  if (typeof fromDevDeps === "string") {
-    return { dependencyType: "devDependencies", currentRange: fromDevDeps };
+  for (const field of dependencyFieldsForDep(dep)) {
+    const range = packageJson[field]?.[packageName];
+    if (typeof range === "string") {
+      return { dependencyType: field, currentRange: range };
+    }
   }
 
   return { dependencyType: "unknown", currentRange: "" };
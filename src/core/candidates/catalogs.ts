@@ -0,0 +1,153 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+
+import type { NextUpdatesDep, NextUpdatesScope } from "../../config/options";
+import {
+  readPnpmWorkspace,
+  resolveWorkspacePaths,
+} from "../../infra/fs/workspaces";
+import type { NcuUpgradedFlat } from "../ncu/normalize";
+import { ncuPassesForDep } from "../ncu/run";
+import type { NextUpdatesCandidateBase } from "../report/types";
+import {
+  type CandidateBuildContext,
+  type DependencyField,
+  dependencyFieldsForDep,
+} from "./build";
+
+export type NextUpdatesCatalog = {
+  name: string;
+  // Workspace directories (relative, "." for the root) whose package.json
+  // points at this entry with `catalog:` or `catalog:<name>`.
+  consumers: string[];
+};
+
+// One pnpm catalog, narrowed to the entries some in-scope package consumes.
+export type CatalogUsage = {
+  name: string;
+  entries: Record<string, string>;
+  consumers: Map<string, string[]>;
+};
+
+const catalogProtocol = "catalog:";
+
+export function parseCatalogSpecifier(range: string): string | null {
+  if (!range.startsWith(catalogProtocol)) {
+    return null;
+  }
+  const name = range.slice(catalogProtocol.length).trim();
+  return name === "" ? "default" : name;
+}
+
+export function catalogPackageFile(name: string): string {
+  return `pnpm-workspace.yaml#${name}`;
+}
+
+export async function readCatalogUsage(
+  cwd: string,
+  scope: NextUpdatesScope,
+  dep: NextUpdatesDep
+): Promise<CatalogUsage[]> {
+  const workspace = await readPnpmWorkspace(cwd);
+  if (!workspace || Object.keys(workspace.catalogs).length === 0) {
+    return [];
+  }
+
+  const workspaceDirs = [
+    ...(scope === "workspaces" ? [] : ["."]),
+    ...(scope === "root"
+      ? []
+      : await resolveWorkspacePaths(cwd, workspace.packages)),
+  ];
+  const consumers = new Map<string, Map<string, string[]>>();
+  for (const workspaceDir of workspaceDirs) {
+    const packageJson = await readDependencySections(
+      path.resolve(cwd, workspaceDir, "package.json")
+    );
+    for (const field of ncuPassesForDep(dep).flatMap(dependencyFieldsForDep)) {
+      for (const [packageName, range] of Object.entries(
+        packageJson?.[field] ?? {}
+      )) {
+        addConsumer(consumers, parseCatalogSpecifier(range), {
+          packageName,
+          workspaceDir,
+        });
+      }
+    }
+  }
+
+  return Object.entries(workspace.catalogs).flatMap(([name, catalog]) => {
+    const used = consumers.get(name);
+    const entries = Object.fromEntries(
+      Object.entries(catalog).filter(([packageName]) => used?.has(packageName))
+    );
+    return used && Object.keys(entries).length > 0
+      ? [{ name, entries, consumers: used }]
+      : [];
+  });
+}
+
+// One candidate per catalog entry; the installed version comes from the first
+// consumer, since every consumer resolves the same catalog range.
+export function buildCatalogCandidates(
+  usage: CatalogUsage,
+  upgraded: NcuUpgradedFlat,
+  context: Omit<CandidateBuildContext, "dep">
+): NextUpdatesCandidateBase[] {
+  return Object.entries(upgraded).flatMap(([packageName, suggestedRange]) => {
+    const currentRange = usage.entries[packageName];
+    const consumers = usage.consumers.get(packageName) ?? [];
+    if (currentRange === undefined || consumers.length === 0) {
+      return [];
+    }
+    return [
+      {
+        packageFile: catalogPackageFile(usage.name),
+        dependencyType: "catalog" as const,
+        packageName,
+        current: {
+          range: currentRange,
+          version: context.installedVersionLookup(
+            path.posix.join(consumers[0], "package.json"),
+            packageName,
+            currentRange
+          ),
+        },
+        target: {
+          range: suggestedRange,
+          version: context.targetVersions.get(packageName) ?? null,
+        },
+        catalog: { name: usage.name, consumers },
+      },
+    ];
+  });
+}
+
+function addConsumer(
+  consumers: Map<string, Map<string, string[]>>,
+  catalogName: string | null,
+  usage: { packageName: string; workspaceDir: string }
+): void {
+  if (catalogName === null) {
+    return;
+  }
+  const catalog = consumers.get(catalogName) ?? new Map<string, string[]>();
+  const dirs = catalog.get(usage.packageName) ?? [];
+  if (!dirs.includes(usage.workspaceDir)) {
+    dirs.push(usage.workspaceDir);
+    dirs.sort();
+  }
+  catalog.set(usage.packageName, dirs);
+  consumers.set(catalogName, catalog);
+}
+
+async function readDependencySections(
+  packageFile: string
+): Promise<Partial<Record<DependencyField, Record<string, string>>> | null> {
+  try {
+    const parsed: unknown = JSON.parse(await fs.readFile(packageFile, "utf8"));
+    return typeof parsed === "object" && parsed !== null ? parsed : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,181 @@
+import { compare, gt, parse, satisfies, valid, validRange } from "semver";
+
+import type { NextUpdatesTarget } from "../../config/options";
+import type { NpmRegistryPackage, RegistryClient } from "../registry/types";
+import type { NextUpdatesCandidateBase } from "../report/types";
+import { widenPeerRange } from "./build";
+import { isSimpleRange, resolveTargetRange } from "./ranges";
+
+const dayMs = 86_400_000;
+
+// Annotates targets with their publish time and, with a minimum age, swaps
+// releases that are too fresh for the newest older release the same target
+// policy allows. Candidates without such a release are dropped.
+export async function applyReleaseAge<T extends NextUpdatesCandidateBase>(
+  candidates: readonly T[],
+  registry: RegistryClient,
+  options: { target: NextUpdatesTarget; minAgeMs?: number; now: number }
+): Promise<T[]> {
+  const results = await Promise.all(
+    candidates.map(async (candidate): Promise<T | null> => {
+      const packument = candidate.target.version
+        ? await registry.getPackage(candidate.packageName)
+        : null;
+      if (!packument) {
+        return candidate;
+      }
+      return applyCandidateAge(candidate, packument, options);
+    })
+  );
+  return results.filter((candidate) => candidate !== null);
+}
+
+function applyCandidateAge<T extends NextUpdatesCandidateBase>(
+  candidate: T,
+  packument: NpmRegistryPackage,
+  options: { target: NextUpdatesTarget; minAgeMs?: number; now: number }
+): T | null {
+  const targetVersion = candidate.target.version ?? "";
+  const publishedAt = packument.time?.[targetVersion];
+  const minAgeMs = options.minAgeMs ?? 0;
+  const ageMs = publishedAt ? options.now - Date.parse(publishedAt) : null;
+  if (minAgeMs <= 0 || ageMs === null || ageMs >= minAgeMs) {
+    return publishedAt
+      ? withPublishedAt(candidate, targetVersion, publishedAt, options.now)
+      : candidate;
+  }
+
+  const fallback = findAgedFallback(packument, candidate, {
+    target: candidate.policy?.target ?? options.target,
+    publishedBefore: options.now - minAgeMs,
+  });
+  const range = fallback
+    ? buildFallbackRange(candidate, fallback.version)
+    : null;
+  if (!(fallback && range)) {
+    return null;
+  }
+  const adjusted = withPublishedAt(
+    candidate,
+    fallback.version,
+    fallback.publishedAt,
+    options.now
+  );
+  return {
+    ...adjusted,
+    target: {
+      ...adjusted.target,
+      range,
+      skippedForAge: targetVersion,
+    },
+  };
+}
+
+// Rebuilds the range around the fallback version in the repo's own style;
+// peers are widened again, and dropped when the current range already admits
+// the fallback.
+function buildFallbackRange(
+  candidate: NextUpdatesCandidateBase,
+  version: string
+): string | null {
+  const isPeer = candidate.dependencyType === "peerDependencies";
+  // widenPeerRange appended ncu's own target after the current range.
+  const targetRange = isPeer
+    ? (candidate.target.range.split("||").at(-1)?.trim() ?? "")
+    : candidate.target.range;
+  const range = styleFallbackRange(
+    candidate.current.range,
+    targetRange,
+    version
+  );
+  if (range === null) {
+    return null;
+  }
+  return isPeer ? widenPeerRange(candidate.current.range, range) : range;
+}
+
+// The current range's prefix when it is a single version, else the prefix of
+// the target ncu suggested, else the current range itself when it already
+// admits the fallback. null rather than an exact pin the repo never used.
+function styleFallbackRange(
+  currentRange: string,
+  targetRange: string,
+  version: string
+): string | null {
+  if (isSimpleRange(currentRange)) {
+    return resolveTargetRange(currentRange, version);
+  }
+  if (isSimpleRange(targetRange)) {
+    return resolveTargetRange(targetRange, version);
+  }
+  return validRange(currentRange) !== null && satisfies(version, currentRange)
+    ? currentRange
+    : null;
+}
+
+function withPublishedAt<T extends NextUpdatesCandidateBase>(
+  candidate: T,
+  version: string,
+  publishedAt: string,
+  now: number
+): T {
+  return {
+    ...candidate,
+    target: {
+      ...candidate.target,
+      version,
+      publishedAt,
+      ageDays: Math.max(0, Math.floor((now - Date.parse(publishedAt)) / dayMs)),
+    },
+  };
+}
+
+// Newest release above the installed version and below the rejected target
+// that stays within the target policy (same major for minor, same minor for
+// patch). Prereleases only qualify when the rejected target was one.
+function findAgedFallback(
+  packument: NpmRegistryPackage,
+  candidate: NextUpdatesCandidateBase,
+  options: { target: NextUpdatesTarget; publishedBefore: number }
+): { version: string; publishedAt: string } | null {
+  const current = parse(candidate.current.version ?? "");
+  const rejected = valid(candidate.target.version ?? "");
+  if (!rejected) {
+    return null;
+  }
+  const allowPrerelease = (parse(rejected)?.prerelease.length ?? 0) > 0;
+
+  let best: { version: string; publishedAt: string } | null = null;
+  for (const [version, publishedAt] of Object.entries(packument.time ?? {})) {
+    const parsed = parse(version);
+    if (
+      !parsed ||
+      (parsed.prerelease.length > 0 && !allowPrerelease) ||
+      Date.parse(publishedAt) > options.publishedBefore ||
+      !gt(rejected, parsed) ||
+      (current && !gt(parsed, current)) ||
+      !withinTarget(parsed, current, options.target) ||
+      packument.versions?.[version] === undefined
+    ) {
+      continue;
+    }
+    if (!best || compare(parsed, best.version) > 0) {
+      best = { version: parsed.version, publishedAt };
+    }
+  }
+  return best;
+}
+
+function withinTarget(
+  version: NonNullable<ReturnType<typeof parse>>,
+  current: ReturnType<typeof parse>,
+  target: NextUpdatesTarget
+): boolean {
+  if (!current || target === "latest") {
+    return true;
+  }
+  if (version.major !== current.major) {
+    return false;
+  }
+  return target === "minor" || version.minor === current.minor;
+}
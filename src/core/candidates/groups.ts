@@ -0,0 +1,260 @@
+import type { NextUpdatesCandidate } from "../report/types";
+import { classifyRiskGroup, type RiskGroup } from "./risk-filter";
+
+export type NextUpdatesUpgradeGroupReason =
+  | "peer"
+  | "types"
+  | "repository"
+  | "scope";
+
+export type NextUpdatesUpgradeGroupRisk = "high" | "medium" | "low";
+
+export type NextUpdatesUpgradeGroupMember = {
+  packageName: string;
+  packageFiles: string[];
+  change: RiskGroup;
+};
+
+export type NextUpdatesUpgradeGroup = {
+  id: string;
+  reasons: NextUpdatesUpgradeGroupReason[];
+  risk: NextUpdatesUpgradeGroupRisk;
+  riskReasons: string[];
+  packages: NextUpdatesUpgradeGroupMember[];
+};
+
+type Link = {
+  from: string;
+  to: string;
+  reason: NextUpdatesUpgradeGroupReason;
+};
+
+const typesScopePrefix = "@types/";
+
+// Clusters candidates that should move together: target peerDependencies,
+// @types companions, packages released from the same repository and packages
+// sharing an npm scope. Singletons are not groups.
+export function buildUpgradeGroups(
+  candidates: readonly NextUpdatesCandidate[]
+): NextUpdatesUpgradeGroup[] {
+  const byName = new Map<string, NextUpdatesCandidate[]>();
+  for (const candidate of candidates) {
+    const entries = byName.get(candidate.packageName) ?? [];
+    entries.push(candidate);
+    byName.set(candidate.packageName, entries);
+  }
+
+  const links = collectLinks(byName);
+  const clusters = clusterNames(Array.from(byName.keys()), links);
+
+  const groups: NextUpdatesUpgradeGroup[] = [];
+  for (const names of clusters) {
+    if (names.length < 2) {
+      continue;
+    }
+    const members = new Set(names);
+    const reasons = new Set(
+      links.filter((link) => members.has(link.from)).map((link) => link.reason)
+    );
+    groups.push(buildGroup(names, reasons, byName));
+  }
+  return groups.sort((a, b) => a.id.localeCompare(b.id));
+}
+
+// Union-find over package names; every cluster is sorted by name.
+function clusterNames(
+  names: readonly string[],
+  links: readonly Link[]
+): string[][] {
+  const parents = new Map<string, string>();
+  const find = (name: string): string => {
+    const parent = parents.get(name) ?? name;
+    if (parent === name) {
+      return name;
+    }
+    const root = find(parent);
+    parents.set(name, root);
+    return root;
+  };
+
+  for (const link of links) {
+    const from = find(link.from);
+    const to = find(link.to);
+    if (from !== to) {
+      parents.set(from < to ? to : from, from < to ? from : to);
+    }
+  }
+
+  const clusters = new Map<string, string[]>();
+  for (const name of [...names].sort()) {
+    const root = find(name);
+    clusters.set(root, [...(clusters.get(root) ?? []), name]);
+  }
+  return Array.from(clusters.values());
+}
+
+function collectLinks(
+  byName: ReadonlyMap<string, readonly NextUpdatesCandidate[]>
+): Link[] {
+  const links: Link[] = [];
+  const byRepository = new Map<string, string>();
+  const byScope = new Map<string, string>();
+
+  for (const [name, entries] of byName) {
+    for (const peer of entries.flatMap((e) => e.relations.peerDependencies)) {
+      if (byName.has(peer) && peer !== name) {
+        links.push({ from: name, to: peer, reason: "peer" });
+      }
+    }
+
+    const typed = resolveTypedPackageName(name);
+    if (typed && byName.has(typed)) {
+      links.push({ from: name, to: typed, reason: "types" });
+    }
+
+    const repository = entries.find((e) => e.relations.repository)?.relations
+      .repository;
+    if (repository) {
+      links.push(...linkToFirst(byRepository, repository, name, "repository"));
+    }
+
+    const scope = readScope(name);
+    if (scope && scope !== "@types") {
+      links.push(...linkToFirst(byScope, scope, name, "scope"));
+    }
+  }
+  return links;
+}
+
+// Links every package sharing a key to the first package seen with it.
+function linkToFirst(
+  firstByKey: Map<string, string>,
+  key: string,
+  name: string,
+  reason: NextUpdatesUpgradeGroupReason
+): Link[] {
+  const first = firstByKey.get(key);
+  if (first) {
+    return [{ from: name, to: first, reason }];
+  }
+  firstByKey.set(key, name);
+  return [];
+}
+
+// @types/react -> react, @types/babel__core -> @babel/core.
+function resolveTypedPackageName(name: string): string | null {
+  if (!name.startsWith(typesScopePrefix)) {
+    return null;
+  }
+  const typed = name.slice(typesScopePrefix.length);
+  const separator = typed.indexOf("__");
+  return separator > 0
+    ? `@${typed.slice(0, separator)}/${typed.slice(separator + 2)}`
+    : typed;
+}
+
+function readScope(name: string): string | null {
+  if (!name.startsWith("@")) {
+    return null;
+  }
+  const slash = name.indexOf("/");
+  return slash > 0 ? name.slice(0, slash) : null;
+}
+
+function buildGroup(
+  names: readonly string[],
+  reasons: ReadonlySet<NextUpdatesUpgradeGroupReason>,
+  byName: ReadonlyMap<string, readonly NextUpdatesCandidate[]>
+): NextUpdatesUpgradeGroup {
+  const members: NextUpdatesUpgradeGroupMember[] = [];
+  const candidates: NextUpdatesCandidate[] = [];
+  for (const name of names) {
+    const entries = byName.get(name) ?? [];
+    candidates.push(...entries);
+    members.push({
+      packageName: name,
+      packageFiles: entries.map((entry) => entry.packageFile).sort(),
+      change: worstChange(entries),
+    });
+  }
+
+  const riskReasons = collectRiskReasons(candidates, members);
+  return {
+    id: names.join("+"),
+    reasons: (["peer", "types", "repository", "scope"] as const).filter(
+      (reason) => reasons.has(reason)
+    ),
+    risk: combineRisk(members, riskReasons),
+    riskReasons,
+    packages: members,
+  };
+}
+
+const changeSeverity: Record<RiskGroup, number> = {
+  none: 0,
+  patch: 1,
+  minor: 2,
+  unknown: 3,
+  prerelease: 4,
+  major: 5,
+};
+
+function worstChange(entries: readonly NextUpdatesCandidate[]): RiskGroup {
+  let worst: RiskGroup = "none";
+  for (const entry of entries) {
+    const change = classifyRiskGroup(
+      entry.current.version,
+      entry.target.version
+    );
+    if (changeSeverity[change] > changeSeverity[worst]) {
+      worst = change;
+    }
+  }
+  return worst;
+}
+
+function collectRiskReasons(
+  candidates: readonly NextUpdatesCandidate[],
+  members: readonly NextUpdatesUpgradeGroupMember[]
+): string[] {
+  const reasons: string[] = [];
+  for (const member of members) {
+    if (member.change === "major" || member.change === "prerelease") {
+      reasons.push(`${member.packageName}: ${member.change}`);
+    }
+  }
+  for (const candidate of candidates) {
+    if (candidate.signals.breaking?.detected) {
+      reasons.push(`${candidate.packageName}: breaking signals`);
+    }
+    if (candidate.compatibility?.compatible === false) {
+      reasons.push(`${candidate.packageName}: incompatible`);
+    }
+    if (
+      candidate.security?.advisories.some(
+        (advisory) => advisory.fixedByTarget === false
+      )
+    ) {
+      reasons.push(`${candidate.packageName}: advisory still affects target`);
+    }
+  }
+  return Array.from(new Set(reasons));
+}
+
+// The group moves as one, so it is as risky as its riskiest member.
+function combineRisk(
+  members: readonly NextUpdatesUpgradeGroupMember[],
+  riskReasons: readonly string[]
+): NextUpdatesUpgradeGroupRisk {
+  if (riskReasons.length > 0) {
+    return "high";
+  }
+  if (
+    members.some(
+      (member) => member.change === "minor" || member.change === "unknown"
+    )
+  ) {
+    return "medium";
+  }
+  return "low";
+}
@@ -0,0 +1,297 @@
+import { intersects, rcompare, satisfies, subset, validRange } from "semver";
+
+import type { RootPackageJson } from "../../infra/fs/workspaces";
+import type { InstalledVersionLookup } from "../lockfiles/detect";
+import type { LockfileGraph } from "../lockfiles/types";
+import type { RegistryClient } from "../registry/types";
+
+export type NextUpdatesOverrideSource =
+  | "overrides"
+  | "resolutions"
+  | "pnpm.overrides";
+
+export type NextUpdatesOverrideDependent = {
+  packageName: string;
+  version: string;
+  // The dependent's own range for the overridden package.
+  range: string;
+  // Whether that range still admits versions the override keeps out.
+  allowsOverridden: boolean;
+};
+
+export type NextUpdatesOverride = {
+  source: NextUpdatesOverrideSource;
+  key: string;
+  packageName: string;
+  // Version selector in the key (`foo@<2`), i.e. the range being replaced.
+  selector: string | null;
+  parent: string | null;
+  pinned: string;
+  installed: string | null;
+  latest: string | null;
+  outdated: boolean;
+  // null without a lockfile, or when no installed package depends on it.
+  needed: boolean | null;
+  dependents: NextUpdatesOverrideDependent[];
+};
+
+export type OverrideEntry = Pick<
+  NextUpdatesOverride,
+  "source" | "key" | "packageName" | "selector" | "parent" | "pinned"
+>;
+
+const directFields = [
+  "dependencies",
+  "devDependencies",
+  "optionalDependencies",
+] as const;
+
+export function readOverrideEntries(
+  manifest: RootPackageJson
+): OverrideEntry[] {
+  const entries: OverrideEntry[] = [];
+  for (const [key, value] of Object.entries(asRecord(manifest.overrides))) {
+    entries.push(...readNpmOverride(key, value, null));
+  }
+  for (const [key, value] of Object.entries(asRecord(manifest.resolutions))) {
+    if (typeof value === "string") {
+      entries.push(readYarnResolution(key, value));
+    }
+  }
+  for (const [key, value] of Object.entries(
+    asRecord(asRecord(manifest.pnpm).overrides)
+  )) {
+    if (typeof value === "string") {
+      entries.push(readPnpmOverride(key, value));
+    }
+  }
+  return entries.map((entry) => ({
+    ...entry,
+    pinned: resolveReference(entry.pinned, manifest),
+  }));
+}
+
+// An override stays needed while a dependent's range could still resolve to a
+// version the override keeps out: one matching the key's selector, or else one
+// outside the pinned range. Dependents are the installed packages that depend
+// on the overridden one according to the lockfile graph.
+export async function collectOverrides(
+  entries: readonly OverrideEntry[],
+  options: {
+    registry: RegistryClient;
+    installedVersionLookup: InstalledVersionLookup;
+    graph: LockfileGraph | null;
+    ignore?: (packageName: string) => boolean;
+  }
+): Promise<NextUpdatesOverride[]> {
+  return await Promise.all(
+    entries
+      .filter((entry) => !options.ignore?.(entry.packageName))
+      .map(async (entry) => {
+        const packument = await options.registry.getPackage(entry.packageName);
+        const latest = packument?.["dist-tags"]?.latest ?? null;
+        const dependents = options.graph
+          ? await findDependents(entry, options.graph, options.registry)
+          : [];
+        return {
+          ...entry,
+          installed:
+            options.installedVersionLookup(
+              "package.json",
+              entry.packageName,
+              entry.pinned
+            ) ??
+            (options.graph ? findInstalledVersion(entry, options.graph) : null),
+          latest,
+          outdated:
+            latest !== null &&
+            validRange(entry.pinned) !== null &&
+            !satisfies(latest, entry.pinned),
+          needed:
+            dependents.length === 0
+              ? null
+              : dependents.some((dependent) => dependent.allowsOverridden),
+          dependents,
+        };
+      })
+  );
+}
+
+// Transitive-only packages have no root lockfile entry, so the version comes
+// from what the (parent-filtered) dependents resolve to; the highest wins when
+// the override left several installed.
+function findInstalledVersion(
+  entry: OverrideEntry,
+  graph: LockfileGraph
+): string | null {
+  const versions = new Set<string>();
+  for (const node of graph.nodes.values()) {
+    const id = node.dependencies[entry.packageName];
+    const resolved = id === undefined ? undefined : graph.nodes.get(id);
+    if (resolved && (entry.parent === null || node.name === entry.parent)) {
+      versions.add(resolved.version);
+    }
+  }
+  return [...versions].sort(rcompare)[0] ?? null;
+}
+
+// Reads each dependent's declared range from its registry manifest, since the
+// lockfile only records what the override resolved it to.
+async function findDependents(
+  entry: OverrideEntry,
+  graph: LockfileGraph,
+  registry: RegistryClient
+): Promise<NextUpdatesOverrideDependent[]> {
+  const installed = new Map<string, { packageName: string; version: string }>();
+  for (const node of graph.nodes.values()) {
+    if (
+      node.dependencies[entry.packageName] !== undefined &&
+      (entry.parent === null || node.name === entry.parent)
+    ) {
+      installed.set(`${node.name}@${node.version}`, {
+        packageName: node.name,
+        version: node.version,
+      });
+    }
+  }
+
+  const dependents = await Promise.all(
+    [...installed.values()].map(async ({ packageName, version }) => {
+      const packument = await registry.getPackage(packageName);
+      const manifest = packument?.versions?.[version];
+      const range =
+        manifest?.dependencies?.[entry.packageName] ??
+        manifest?.optionalDependencies?.[entry.packageName] ??
+        manifest?.peerDependencies?.[entry.packageName];
+      if (range === undefined) {
+        return null;
+      }
+      return {
+        packageName,
+        version,
+        range,
+        allowsOverridden: allowsOverridden(range, entry),
+      };
+    })
+  );
+  return dependents
+    .filter(
+      (dependent): dependent is NextUpdatesOverrideDependent =>
+        dependent !== null
+    )
+    .sort(
+      (a, b) =>
+        a.packageName.localeCompare(b.packageName) ||
+        a.version.localeCompare(b.version)
+    );
+}
+
+function allowsOverridden(range: string, entry: OverrideEntry): boolean {
+  if (validRange(range) === null) {
+    return true;
+  }
+  if (entry.selector !== null && validRange(entry.selector) !== null) {
+    return intersects(range, entry.selector);
+  }
+  return validRange(entry.pinned) === null || !subset(range, entry.pinned);
+}
+
+// npm: `{ "foo": "1.0.0" }` or nested `{ "parent": { ".": "2.0.0", "foo": "1.0.0" } }`.
+function readNpmOverride(
+  key: string,
+  value: unknown,
+  parent: string | null
+): OverrideEntry[] {
+  const { packageName, selector } = splitSelector(key);
+  if (typeof value === "string") {
+    return [
+      {
+        source: "overrides",
+        key: parent ? `${parent}>${key}` : key,
+        packageName,
+        selector,
+        parent,
+        pinned: value,
+      },
+    ];
+  }
+  return Object.entries(asRecord(value)).flatMap(([childKey, childValue]) =>
+    childKey === "."
+      ? readNpmOverride(key, childValue, parent)
+      : readNpmOverride(childKey, childValue, packageName)
+  );
+}
+
+// Yarn: `foo`, `**/foo`, `parent/foo`, `@scope/parent/**/@scope/foo`.
+function readYarnResolution(key: string, pinned: string): OverrideEntry {
+  const names: string[] = [];
+  const segments = key.split("/");
+  for (let index = 0; index < segments.length; index += 1) {
+    const segment = segments[index];
+    if (segment === "**" || segment === "") {
+      continue;
+    }
+    if (segment.startsWith("@") && index + 1 < segments.length) {
+      names.push(`${segment}/${segments[index + 1]}`);
+      index += 1;
+    } else {
+      names.push(segment);
+    }
+  }
+  const { packageName, selector } = splitSelector(names.at(-1) ?? key);
+  const parent = names.at(-2);
+  return {
+    source: "resolutions",
+    key,
+    packageName,
+    selector,
+    parent: parent ? splitSelector(parent).packageName : null,
+    pinned,
+  };
+}
+
+// pnpm: `foo`, `foo@<2`, `parent>foo`, `parent@1>foo@<2`.
+function readPnpmOverride(key: string, pinned: string): OverrideEntry {
+  const parts = key.split(">");
+  const { packageName, selector } = splitSelector(parts.at(-1) ?? key);
+  const parent = parts.length > 1 ? parts.at(-2) : undefined;
+  return {
+    source: "pnpm.overrides",
+    key,
+    packageName,
+    selector,
+    parent: parent ? splitSelector(parent).packageName : null,
+    pinned,
+  };
+}
+
+function splitSelector(key: string): {
+  packageName: string;
+  selector: string | null;
+} {
+  const at = key.indexOf("@", 1);
+  return at === -1
+    ? { packageName: key, selector: null }
+    : { packageName: key.slice(0, at), selector: key.slice(at + 1) };
+}
+
+// npm `$name` values reuse the root's own range for that dependency.
+function resolveReference(pinned: string, manifest: RootPackageJson): string {
+  if (!pinned.startsWith("$")) {
+    return pinned;
+  }
+  const name = pinned.slice(1);
+  for (const field of directFields) {
+    const range = manifest[field]?.[name];
+    if (range !== undefined) {
+      return range;
+    }
+  }
+  return pinned;
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {};
+}
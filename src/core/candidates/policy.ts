@@ -0,0 +1,153 @@
+import path from "node:path";
+
+import { createGlobMatcher } from "../../config/glob";
+import type {
+  NextUpdatesPolicyOptions,
+  NextUpdatesTarget,
+  NextUpdatesTargetRule,
+} from "../../config/options";
+import type { DependencyType, NextUpdatesCandidateBase } from "../report/types";
+
+// `source` names what decided the target: "default" (--target or config),
+// "targets.<key>" or "policies[<index>]".
+export type NextUpdatesTargetPolicy = {
+  target: NextUpdatesTarget;
+  source: string;
+};
+
+export type TargetPolicyContext = {
+  packageName: string;
+  dependencyType?: DependencyType;
+  workspace?: string;
+};
+
+export type TargetPolicyResolver = {
+  // True when some rule depends on the dependency type or workspace, which
+  // ncu's per-package target function cannot see.
+  contextual: boolean;
+  targets: NextUpdatesTarget[];
+  resolve(context: TargetPolicyContext): NextUpdatesTargetPolicy;
+};
+
+type CompiledRule = {
+  source: string;
+  target: NextUpdatesTarget;
+  packages: ((value: string) => boolean) | null;
+  dependencyTypes: readonly string[] | null;
+  workspaces: ((value: string) => boolean) | null;
+};
+
+// Include/exclude globs match workspace directories relative to the repo
+// root; the root package.json is governed by --scope and always passes.
+export function applyWorkspacePolicy<T extends NextUpdatesCandidateBase>(
+  candidates: readonly T[],
+  workspaces: NextUpdatesPolicyOptions["workspaces"]
+): T[] {
+  const include = workspaces?.include ?? [];
+  const exclude = workspaces?.exclude ?? [];
+  if (include.length === 0 && exclude.length === 0) {
+    return [...candidates];
+  }
+
+  const included = createGlobMatcher(include);
+  const excluded = createGlobMatcher(exclude);
+  return candidates.filter((candidate) => {
+    const workspace = resolveCandidateWorkspace(candidate.packageFile);
+    if (workspace === ".") {
+      return true;
+    }
+    if (include.length > 0 && !included(workspace)) {
+      return false;
+    }
+    return !excluded(workspace);
+  });
+}
+
+export function createTargetPolicyResolver(
+  defaultTarget: NextUpdatesTarget,
+  policy: NextUpdatesPolicyOptions = {}
+): TargetPolicyResolver {
+  const rules = [
+    ...(policy.policies ?? []).map((rule, index) =>
+      compileRule(rule, `policies[${index}]`)
+    ),
+    ...compileTargetOverrides(policy.targets ?? {}),
+  ];
+  const contextual = rules.some(
+    (rule) => rule.dependencyTypes !== null || rule.workspaces !== null
+  );
+  const targets = Array.from(
+    new Set([defaultTarget, ...rules.map((rule) => rule.target)])
+  );
+
+  return {
+    contextual,
+    targets,
+    resolve(context) {
+      const rule = rules.find((entry) => matchesRule(entry, context));
+      return rule
+        ? { target: rule.target, source: rule.source }
+        : { target: defaultTarget, source: "default" };
+    },
+  };
+}
+
+export function resolveCandidateWorkspace(packageFile: string): string {
+  return path.posix.dirname(packageFile.replaceAll("\\", "/"));
+}
+
+function compileRule(
+  rule: NextUpdatesTargetRule,
+  source: string
+): CompiledRule {
+  return {
+    source,
+    target: rule.target,
+    packages: rule.packages ? createGlobMatcher(rule.packages) : null,
+    dependencyTypes: rule.dependencyTypes ?? null,
+    workspaces: rule.workspaces ? createGlobMatcher(rule.workspaces) : null,
+  };
+}
+
+// Exact names win over globs in the `targets` shorthand.
+function compileTargetOverrides(
+  targets: Record<string, NextUpdatesTarget>
+): CompiledRule[] {
+  const keys = Object.keys(targets).sort(
+    (a, b) => Number(a.includes("*")) - Number(b.includes("*"))
+  );
+  return keys.map((key) => ({
+    source: `targets.${key}`,
+    target: targets[key] ?? "latest",
+    packages: createGlobMatcher([key]),
+    dependencyTypes: null,
+    workspaces: null,
+  }));
+}
+
+// Dimensions the caller cannot supply (ncu's target function only knows the
+// name) never match, so contextual rules fall through.
+function matchesRule(
+  rule: CompiledRule,
+  context: TargetPolicyContext
+): boolean {
+  if (rule.packages && !rule.packages(context.packageName)) {
+    return false;
+  }
+  if (
+    rule.dependencyTypes &&
+    !(
+      context.dependencyType &&
+      rule.dependencyTypes.includes(context.dependencyType)
+    )
+  ) {
+    return false;
+  }
+  if (
+    rule.workspaces &&
+    !(context.workspace !== undefined && rule.workspaces(context.workspace))
+  ) {
+    return false;
+  }
+  return true;
+}
@@ -0,0 +1,20 @@
+const simpleRangeRegex = /^(\^|~|>=|=)?v?(\d+(?:\.\d+){0,2}(?:[-+][\w.+-]*)?)$/;
+
+// Keeps the prefix the repo already uses (`^`, `~`, `>=`, `=` or exact) when
+// both ranges are a single version; anything more complex is taken verbatim.
+export function resolveTargetRange(
+  currentRange: string,
+  targetRange: string
+): string {
+  const current = simpleRangeRegex.exec(currentRange.trim());
+  const target = simpleRangeRegex.exec(targetRange.trim());
+  if (!(current && target)) {
+    return targetRange;
+  }
+  return `${current[1] ?? ""}${target[2]}`;
+}
+
+// A single version with an optional `^`, `~`, `>=` or `=` prefix.
+export function isSimpleRange(range: string): boolean {
+  return simpleRangeRegex.test(range.trim());
+}
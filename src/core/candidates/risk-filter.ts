@@ -1,9 +1,12 @@
 import { compare, parse } from "semver";
 
 import type { NextUpdatesRisk } from "../../config/options";
-import type { NextUpdatesCandidateBase } from "../report/types";
+import type {
+  NextUpdatesCandidate,
+  NextUpdatesCandidateBase,
+} from "../report/types";
 
-type RiskGroup =
+export type RiskGroup =
   | "major"
   | "minor"
   | "patch"
@@ -28,7 +31,35 @@ export function applyRiskFilter<T extends NextUpdatesCandidateBase>(
   });
 }
 
-function classifyRiskGroup(
+// Filters that depend on collected evidence (release notes) run after
+// evidence collection; everything else was already applied by applyRiskFilter.
+export function applyEvidenceRiskFilter<T extends NextUpdatesCandidate>(
+  candidates: readonly T[],
+  risk: NextUpdatesRisk
+): T[] {
+  if (risk === "breaking-only") {
+    return candidates.filter(
+      (candidate) => candidate.signals.breaking?.detected === true
+    );
+  }
+  if (risk === "security-only") {
+    return candidates.filter(
+      (candidate) => (candidate.security?.advisories.length ?? 0) > 0
+    );
+  }
+  if (risk === "deprecated-only") {
+    return candidates.filter(
+      (candidate) => candidate.signals.deprecation !== undefined
+    );
+  }
+  return [...candidates];
+}
+
+export function requiresReleaseNotes(risk: NextUpdatesRisk): boolean {
+  return risk === "breaking-only";
+}
+
+export function classifyRiskGroup(
   currentVersion: string | null,
   targetVersion: string | null
 ): RiskGroup {
@@ -79,6 +110,10 @@ function matchesRiskFilter(risk: NextUpdatesRisk, group: RiskGroup): boolean {
       return group === "prerelease";
     case "unknown-only":
       return group === "unknown";
+    case "breaking-only":
+    case "security-only":
+    case "deprecated-only":
+      return true;
     default:
       return true;
   }
@@ -0,0 +1,241 @@
+import { compare, gt, lt, maxSatisfying, valid } from "semver";
+
+import type { LockfileGraph } from "../lockfiles/detect";
+import type { RegistryClient } from "../registry/types";
+
+export type NextUpdatesTransitiveVia = {
+  // Package files whose direct dependency pulls the package in this way.
+  packageFiles: string[];
+  directDependency: string;
+  directVersion: string;
+  // Package names from the direct dependency down to this package.
+  path: string[];
+  version: string;
+  // Whether the direct dependency's latest release resolves a newer version
+  // (or drops the package); null when it sits deeper than the direct
+  // dependency's own dependencies.
+  refreshedByUpgrade: boolean | null;
+};
+
+export type NextUpdatesTransitivePackage = {
+  packageName: string;
+  versions: string[];
+  latest: string | null;
+  outdated: boolean;
+  duplicated: boolean;
+  // One entry per direct dependency version, capped at maxVia; viaCount is
+  // the full number.
+  via: NextUpdatesTransitiveVia[];
+  viaCount: number;
+};
+
+type Reach = Omit<NextUpdatesTransitiveVia, "refreshedByUpgrade">;
+
+type DirectDependencyNode = {
+  directDependency: string;
+  directId: string;
+  packageFiles: string[];
+};
+
+const maxVia = 20;
+
+// Lists packages pulled in by other packages that are behind their latest
+// release or installed in more than one version. Staleness comes from the
+// dist-tags alone; full packuments are only read to tell whether upgrading a
+// direct dependency refreshes its own dependencies.
+export async function collectTransitivePackages(
+  graph: LockfileGraph,
+  options: {
+    registry: RegistryClient;
+    ignore?: (packageName: string) => boolean;
+  }
+): Promise<NextUpdatesTransitivePackage[]> {
+  const reaches = new Map<string, Reach[]>();
+  for (const reach of walkLockfileGraph(graph)) {
+    const name = reach.path.at(-1) ?? "";
+    if (options.ignore?.(name)) {
+      continue;
+    }
+    const existing = reaches.get(name);
+    if (existing) {
+      existing.push(reach);
+    } else {
+      reaches.set(name, [reach]);
+    }
+  }
+  const installed = new Map<string, Set<string>>();
+  for (const node of graph.nodes.values()) {
+    installed.set(
+      node.name,
+      (installed.get(node.name) ?? new Set()).add(node.version)
+    );
+  }
+
+  const packages = await Promise.all(
+    [...reaches].map(async ([packageName, via]) => {
+      const versions = [...(installed.get(packageName) ?? [])].sort(
+        compareVersions
+      );
+      const latest =
+        (await options.registry.getDistTags(packageName))?.latest ?? null;
+      const outdated =
+        latest !== null &&
+        valid(latest) !== null &&
+        versions.some((version) => valid(version) && lt(version, latest));
+      const duplicated = versions.length > 1;
+      if (!(outdated || duplicated)) {
+        return null;
+      }
+      const listed = via.slice(0, maxVia);
+      const packageVersions = listed.some((reach) => reach.path.length === 2)
+        ? Object.keys(
+            (await options.registry.getPackage(packageName))?.versions ?? {}
+          )
+        : [];
+      return {
+        packageName,
+        versions,
+        latest,
+        outdated,
+        duplicated,
+        via: await Promise.all(
+          listed.map(async (reach) => ({
+            ...reach,
+            refreshedByUpgrade: await isRefreshedByUpgrade(
+              reach,
+              packageVersions,
+              options.registry
+            ),
+          }))
+        ),
+        viaCount: via.length,
+      };
+    })
+  );
+  return packages
+    .filter((entry): entry is NextUpdatesTransitivePackage => entry !== null)
+    .sort((a, b) => a.packageName.localeCompare(b.packageName));
+}
+
+// One breadth-first walk from all direct dependencies at once. Each node
+// records the path by which every direct dependency reaches it, and is only
+// expanded again for directs that had not reached it yet, so shared subtrees
+// are not re-walked per direct. Importers sharing a direct dependency node are
+// listed together.
+function walkLockfileGraph(graph: LockfileGraph): Reach[] {
+  const directs = collectDirectDependencyNodes(graph);
+  const reaches: Reach[] = [];
+  for (const [id, paths] of reachFromDirects(graph, directs)) {
+    const version = graph.nodes.get(id)?.version ?? "";
+    for (const [key, path] of paths) {
+      const direct = directs.get(key);
+      if (direct && path.length > 1) {
+        reaches.push({
+          packageFiles: direct.packageFiles,
+          directDependency: direct.directDependency,
+          directVersion: graph.nodes.get(direct.directId)?.version ?? "",
+          path,
+          version,
+        });
+      }
+    }
+  }
+  return reaches;
+}
+
+// Node id → direct key → path from that direct dependency.
+function reachFromDirects(
+  graph: LockfileGraph,
+  directs: ReadonlyMap<string, DirectDependencyNode>
+): Map<string, Map<string, string[]>> {
+  const reached = new Map<string, Map<string, string[]>>();
+  // Paths that arrived since the node was last expanded.
+  const pending = new Map<string, Map<string, string[]>>();
+  const queue: string[] = [];
+  const reach = (id: string, key: string, path: string[]) => {
+    const paths = reached.get(id) ?? new Map<string, string[]>();
+    if (paths.has(key) || !graph.nodes.has(id)) {
+      return;
+    }
+    paths.set(key, path);
+    reached.set(id, paths);
+    const fresh = pending.get(id);
+    if (fresh) {
+      fresh.set(key, path);
+    } else {
+      pending.set(id, new Map([[key, path]]));
+      queue.push(id);
+    }
+  };
+  for (const [key, direct] of directs) {
+    reach(direct.directId, key, [direct.directDependency]);
+  }
+  // Array iteration picks up entries pushed during the loop, so this walks the
+  // queue without shifting it.
+  for (const id of queue) {
+    const fresh = pending.get(id) ?? new Map<string, string[]>();
+    pending.delete(id);
+    for (const [name, childId] of Object.entries(
+      graph.nodes.get(id)?.dependencies ?? {}
+    )) {
+      for (const [key, path] of fresh) {
+        reach(childId, key, [...path, name]);
+      }
+    }
+  }
+  return reached;
+}
+
+function collectDirectDependencyNodes(
+  graph: LockfileGraph
+): Map<string, DirectDependencyNode> {
+  const directs = new Map<string, DirectDependencyNode>();
+  for (const [packageFile, direct] of graph.importers) {
+    for (const [directDependency, directId] of Object.entries(direct)) {
+      const key = `${directDependency} ${directId}`;
+      const existing = directs.get(key);
+      if (existing) {
+        existing.packageFiles.push(packageFile);
+      } else {
+        directs.set(key, {
+          directDependency,
+          directId,
+          packageFiles: [packageFile],
+        });
+      }
+    }
+  }
+  return directs;
+}
+
+async function isRefreshedByUpgrade(
+  reach: Reach,
+  versions: string[],
+  registry: RegistryClient
+): Promise<boolean | null> {
+  if (reach.path.length !== 2 || valid(reach.version) === null) {
+    return null;
+  }
+  const packument = await registry.getPackage(reach.directDependency);
+  const latest = packument?.["dist-tags"]?.latest;
+  const manifest = latest ? packument?.versions?.[latest] : undefined;
+  if (!manifest) {
+    return null;
+  }
+  const packageName = reach.path[1];
+  const range =
+    manifest.dependencies?.[packageName] ??
+    manifest.optionalDependencies?.[packageName];
+  if (range === undefined) {
+    return true;
+  }
+  const resolved = maxSatisfying(versions, range);
+  return resolved !== null && gt(resolved, reach.version);
+}
+
+function compareVersions(a: string, b: string): number {
+  if (valid(a) && valid(b)) {
+    return compare(a, b);
+  }
+  return a.localeCompare(b);
+}
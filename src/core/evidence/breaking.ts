@@ -0,0 +1,77 @@
+import type { NextUpdatesReleaseNoteSection } from "./notes";
+
+export type NextUpdatesBreakingSignal = {
+  detected: boolean;
+  excerpts: string[];
+};
+
+const breakingPatterns = [
+  /\bBREAKING\b/,
+  /\bbreaking changes?\b/i,
+  // Only removals of public surface; "remove flaky test" is routine.
+  /\bremoved?\b.*\b(?:api|option|support|export|method)s?\b/i,
+  /\bdeprecat(?:e|ed|es|ion)\b/i,
+  /\bmigrat(?:e|ion|ing)\b/i,
+  /\bdrop(?:ped|s)?\s+(?:support\s+for\s+)?node(?:\.js)?\b/i,
+];
+const maxExcerpts = 8;
+const maxExcerptLength = 200;
+const lineBreakRegex = /\r?\n/;
+const markdownPrefixRegex = /^[\s>*#-]+/;
+const headingRegex = /^\s*#{1,6}\s/;
+
+// Scans release notes already sliced to the version window; callers pass the
+// untruncated sections so older entries in a long window are still seen.
+// Returns null when there is nothing to scan so "not detected" is never
+// confused with "no notes available".
+export function detectBreakingChanges(
+  notes:
+    | { sections: readonly NextUpdatesReleaseNoteSection[] }
+    | null
+    | undefined
+): NextUpdatesBreakingSignal | null {
+  if (!notes || notes.sections.length === 0) {
+    return null;
+  }
+
+  const excerpts: string[] = [];
+  for (const section of notes.sections) {
+    excerpts.push(
+      ...collectSectionExcerpts(section.body).map(
+        (text) => `${section.version}: ${truncateExcerpt(text)}`
+      )
+    );
+  }
+
+  return {
+    detected: excerpts.length > 0,
+    excerpts: excerpts.slice(0, maxExcerpts),
+  };
+}
+
+// Lines under a "Breaking changes"-style heading count even when they don't
+// repeat a keyword themselves; the heading line is not an excerpt.
+function collectSectionExcerpts(body: string): string[] {
+  const excerpts: string[] = [];
+  let inBreakingBlock = false;
+  for (const line of body.split(lineBreakRegex)) {
+    const isHeading = headingRegex.test(line);
+    const text = line.replace(markdownPrefixRegex, "").trim();
+    const matches = breakingPatterns.some((regex) => regex.test(text));
+    if (isHeading) {
+      inBreakingBlock = matches;
+      continue;
+    }
+    if (text !== "" && (inBreakingBlock || matches)) {
+      excerpts.push(text);
+    }
+  }
+  return excerpts;
+}
+
+function truncateExcerpt(text: string): string {
+  if (text.length <= maxExcerptLength) {
+    return text;
+  }
+  return `${text.slice(0, maxExcerptLength).trimEnd()}…`;
+}
@@ -0,0 +1,96 @@
+import path from "node:path";
+
+import { readNpmrcConfig } from "../../infra/fs/npmrc";
+import {
+  createCachingHttpClient,
+  defaultHttpCacheDir,
+} from "../../infra/http/cache";
+import {
+  createFetchHttpClient,
+  type HttpClient,
+} from "../../infra/http/client";
+import { createFixtureHttpClient } from "../../infra/http/fixture";
+import { createScheduledHttpClient } from "../../infra/http/scheduler";
+import {
+  type AdvisoryClient,
+  createFileAdvisoryClient,
+  createRegistryAdvisoryClient,
+} from "../registry/advisories";
+import {
+  createFixtureRegistryClient,
+  createRegistryClient,
+} from "../registry/client";
+import {
+  createFixtureTarballClient,
+  createRegistryTarballClient,
+  type TarballClient,
+} from "../registry/tarballs";
+import type { RegistryClient } from "../registry/types";
+import { createGitHubApiClient, type GitHubApiClient } from "./github";
+
+export type EvidenceClients = {
+  registry: RegistryClient;
+  advisories: AdvisoryClient;
+  http: HttpClient;
+  tarballs: TarballClient;
+  // Set when a GitHub token is available; evidence falls back to probing
+  // URLs without it.
+  github: GitHubApiClient | null;
+};
+
+export type EvidenceClientOptions = {
+  cwd: string;
+  fixturesDir?: string;
+  advisoriesFile?: string;
+  cache?: boolean;
+  cacheDir?: string;
+  timeoutMs?: number;
+  concurrency?: number;
+  // Defaults to GITHUB_TOKEN outside fixture runs.
+  githubToken?: string;
+};
+
+export async function createEvidenceClients(
+  options: EvidenceClientOptions
+): Promise<EvidenceClients> {
+  const advisoriesFile = options.advisoriesFile
+    ? path.resolve(options.cwd, options.advisoriesFile)
+    : null;
+
+  if (options.fixturesDir) {
+    const dir = path.resolve(options.cwd, options.fixturesDir);
+    const http = createFixtureHttpClient(dir);
+    return {
+      registry: createFixtureRegistryClient(dir),
+      advisories: advisoriesFile
+        ? createFileAdvisoryClient(advisoriesFile)
+        : createRegistryAdvisoryClient(http),
+      http,
+      tarballs: createFixtureTarballClient(dir),
+      github: options.githubToken
+        ? createGitHubApiClient(http, options.githubToken)
+        : null,
+    };
+  }
+
+  let http = createScheduledHttpClient(createFetchHttpClient(), {
+    timeoutMs: options.timeoutMs,
+    concurrency: options.concurrency,
+  });
+  if (options.cache !== false) {
+    http = createCachingHttpClient(http, {
+      dir: path.resolve(options.cwd, options.cacheDir ?? defaultHttpCacheDir),
+    });
+  }
+  const npmrc = await readNpmrcConfig(options.cwd);
+  const githubToken = options.githubToken ?? process.env.GITHUB_TOKEN;
+  return {
+    registry: createRegistryClient(http, npmrc),
+    advisories: advisoriesFile
+      ? createFileAdvisoryClient(advisoriesFile)
+      : createRegistryAdvisoryClient(http, npmrc),
+    http,
+    tarballs: createRegistryTarballClient(http, npmrc),
+    github: githubToken ? createGitHubApiClient(http, githubToken) : null,
+  };
+}
@@ -1,5 +1,40 @@
 import { compare, gte, lte, parse, valid } from "semver";
 
+import type { NextUpdatesEvidenceOptions } from "../../config/options";
+import type { NpmRegistryPackage } from "../registry/types";
+import {
+  detectBreakingChanges,
+  type NextUpdatesBreakingSignal,
+} from "./breaking";
+import type { EvidenceClients } from "./clients";
+import {
+  type CompatibilityRepoContext,
+  checkCompatibility,
+  type NextUpdatesCompatibility,
+} from "./compatibility";
+import { detectDeprecation, type NextUpdatesDeprecation } from "./deprecation";
+import { type Forge, type ForgeReleases, resolveForge } from "./forge";
+import { type GitHubApiClient, readGitHubRepoPath } from "./github";
+import {
+  type CollectedReleaseNotes,
+  collectReleaseNotes,
+  getForgeReleases,
+  type NextUpdatesRelease,
+  type NextUpdatesReleaseNotes,
+  type ReleaseListCache,
+  selectReleases,
+} from "./notes";
+import {
+  collectPackageDiff,
+  type NextUpdatesPackageDiff,
+  type TarballCache,
+} from "./package-diff";
+import {
+  collectSecurityAdvisories,
+  type NextUpdatesSecurity,
+} from "./security";
+import { buildTagNames, pickExactTag } from "./tags";
+
 export type NextUpdatesVersionWindow = {
   delta: {
     major: number;
@@ -9,6 +44,13 @@ export type NextUpdatesVersionWindow = {
   };
 };
 
+// How links.compare was found: exact tags from the GitHub API, probed tag
+// names, or the `gitHead` commits of both versions.
+export type NextUpdatesCompareStrategy =
+  | "github-tags"
+  | "tag-probe"
+  | "git-head";
+
 export type NextUpdatesEvidence = {
   links: {
     compare?: string;
@@ -16,10 +58,29 @@ export type NextUpdatesEvidence = {
     releases?: string;
     changelog?: string;
   };
+  compareStrategy?: NextUpdatesCompareStrategy;
+  notes?: NextUpdatesReleaseNotes;
+  // Exact tags and releases in the window, from the GitHub API backend.
+  tags?: CompareTagPair;
+  releases?: NextUpdatesRelease[];
+  // Tarball-level diff of installed vs target, with --package-diff.
+  packageDiff?: NextUpdatesPackageDiff;
+};
+
+export type NextUpdatesSignals = {
+  breaking?: NextUpdatesBreakingSignal;
+  deprecation?: NextUpdatesDeprecation;
+};
+
+// Registry facts the upgrade grouping pass clusters on; not part of the report.
+export type NextUpdatesCandidateRelations = {
+  repository: string | null;
+  peerDependencies: string[];
 };
 
 export type CandidateEvidenceInput = {
   packageName: string;
+  packageFile?: string;
   installedVersion: string | null;
   targetVersion: string | null;
 };
@@ -27,58 +88,70 @@ export type CandidateEvidenceInput = {
 export type CandidateEvidenceResult = {
   versionWindow: NextUpdatesVersionWindow;
   evidence: NextUpdatesEvidence | null;
+  signals: NextUpdatesSignals;
+  relations: NextUpdatesCandidateRelations;
+  security?: NextUpdatesSecurity;
+  compatibility?: NextUpdatesCompatibility;
 };
 
-type NpmRegistryRepository =
-  | string
-  | {
-      type?: string;
-      url?: string;
-    };
+export type CompareTagPair = {
+  from: string;
+  to: string;
+};
 
-type NpmRegistryPackage = {
-  versions?: Record<string, unknown>;
-  repository?: NpmRegistryRepository;
+type GitHubBackend = {
+  client: GitHubApiClient;
+  repoPath: string;
 };
 
-type CompareTagPair = {
-  from: string;
-  to: string;
+type ForgeSource = {
+  forge: Forge;
+  github: GitHubBackend | null;
 };
 
-const npmRegistryBaseUrl = "https://registry.npmjs.org";
-const gitPlusRegex = /^git\+/;
-const gitProtocolRegex = /^git:\/\//;
-const gitSshRegex = /^ssh:\/\/git@github.com\//;
-const gitAtRegex = /^git@github.com:/;
-const gitHashRegex = /#.*$/;
-const gitHubRepoRegex = /github\.com\/([^/]+\/[^/#]+)(?:[/.#].*)?/;
-const gitSuffixRegex = /\.git$/;
-
-export function collectCandidateEvidence(
-  inputs: readonly CandidateEvidenceInput[]
+type EvidenceContext = {
+  clients: EvidenceClients;
+  options: NextUpdatesEvidenceOptions;
+  repo: CompatibilityRepoContext | null;
+  releaseListCache: ReleaseListCache;
+  registryCache: Map<string, Promise<NpmRegistryPackage | null>>;
+  urlReachableCache: Map<string, Promise<boolean>>;
+  releasesCache: Map<string, Promise<string | null>>;
+  tarballCache: TarballCache;
+};
+
+export async function collectCandidateEvidence(
+  inputs: readonly CandidateEvidenceInput[],
+  clients: EvidenceClients,
+  options: NextUpdatesEvidenceOptions = {},
+  repo: CompatibilityRepoContext | null = null
 ): Promise<CandidateEvidenceResult[]> {
-  const registryCache = new Map<string, Promise<NpmRegistryPackage | null>>();
-  const urlReachableCache = new Map<string, Promise<boolean>>();
-  const releasesCache = new Map<string, Promise<string | null>>();
-
-  return Promise.all(
-    inputs.map((input) =>
-      buildCandidateEvidence(
-        input,
-        registryCache,
-        urlReachableCache,
-        releasesCache
-      )
-    )
-  );
+  const context: EvidenceContext = {
+    clients,
+    options,
+    repo,
+    releaseListCache: new Map(),
+    registryCache: new Map(),
+    urlReachableCache: new Map(),
+    releasesCache: new Map(),
+    tarballCache: new Map(),
+  };
+
+  const [results, security] = await Promise.all([
+    Promise.all(inputs.map((input) => buildCandidateEvidence(input, context))),
+    collectSecurityAdvisories(inputs, clients.advisories),
+  ]);
+  return results.map((result, index) => {
+    const candidateSecurity = security[index];
+    return candidateSecurity
+      ? { ...result, security: candidateSecurity }
+      : result;
+  });
 }
 
 async function buildCandidateEvidence(
   input: CandidateEvidenceInput,
-  registryCache: Map<string, Promise<NpmRegistryPackage | null>>,
-  urlReachableCache: Map<string, Promise<boolean>>,
-  releasesCache: Map<string, Promise<string | null>>
+  context: EvidenceContext
 ): Promise<CandidateEvidenceResult> {
   const npmDiffLink = buildNpmDiffLink(
     input.packageName,
@@ -86,13 +159,13 @@ async function buildCandidateEvidence(
     input.targetVersion
   );
 
-  const registry = await getRegistryPackage(input.packageName, registryCache);
-  const repositoryLinks = registry
-    ? await buildRepositoryEvidenceLinks(
-        registry,
-        urlReachableCache,
-        releasesCache
-      )
+  const registry = await getRegistryPackage(input.packageName, context);
+  const forge = registry
+    ? resolveForge(registry.repository, context.options.forges)
+    : null;
+  const github = forge ? getGitHubBackend(forge, context.clients) : null;
+  const repositoryLinks = forge
+    ? await buildRepositoryEvidenceLinks(forge, github, context)
     : {};
 
   const versionWindow =
@@ -104,28 +177,104 @@ async function buildCandidateEvidence(
         )
       : createEmptyVersionWindow();
 
-  const compareUrl =
-    registry && input.installedVersion && input.targetVersion
+  const compareEvidence =
+    registry && forge && input.installedVersion && input.targetVersion
       ? await buildCompareEvidence({
+          forge,
+          github,
           registry,
           packageName: input.packageName,
           installedVersion: input.installedVersion,
           targetVersion: input.targetVersion,
-          urlReachableCache,
+          context,
         })
       : null;
 
+  const notes =
+    context.options.withNotes && forge
+      ? await buildReleaseNotes(
+          input,
+          { forge, github },
+          repositoryLinks.changelog ?? null,
+          context
+        )
+      : null;
+
+  const evidence = buildEvidenceLinks({
+    compare: compareEvidence?.url,
+    npmDiffLink: npmDiffLink ?? undefined,
+    releases: repositoryLinks.releases,
+    changelog: repositoryLinks.changelog,
+  });
+
+  const compatibility = buildCompatibility(registry, input, context);
+
   return {
     versionWindow,
-    evidence: buildEvidenceLinks({
-      compare: compareUrl ?? undefined,
-      npmDiffLink: npmDiffLink ?? undefined,
-      releases: repositoryLinks.releases,
-      changelog: repositoryLinks.changelog,
+    evidence: addEvidenceDetails(evidence, {
+      notes: notes?.notes,
+      compareStrategy: compareEvidence?.strategy,
+      tags: compareEvidence?.tags ?? undefined,
+      releases: await buildWindowReleases(input, forge, github, context),
+      packageDiff: await buildPackageDiff(input, registry, context),
     }),
+    signals: buildSignals(registry, input, notes),
+    relations: buildRelations(registry, forge, input.targetVersion),
+    ...(compatibility ? { compatibility } : {}),
   };
 }
 
+function buildCompatibility(
+  registry: NpmRegistryPackage | null,
+  input: CandidateEvidenceInput,
+  context: EvidenceContext
+): NextUpdatesCompatibility | null {
+  if (!(registry && context.repo)) {
+    return null;
+  }
+  return checkCompatibility({
+    registry,
+    packageFile: input.packageFile ?? "package.json",
+    installedVersion: input.installedVersion,
+    targetVersion: input.targetVersion,
+    repo: context.repo,
+  });
+}
+
+function buildRelations(
+  registry: NpmRegistryPackage | null,
+  forge: Forge | null,
+  targetVersion: string | null
+): NextUpdatesCandidateRelations {
+  if (!registry) {
+    return { repository: null, peerDependencies: [] };
+  }
+  const manifest = targetVersion ? registry.versions?.[targetVersion] : null;
+  return {
+    repository: forge?.repositoryUrl ?? null,
+    peerDependencies: Object.keys(manifest?.peerDependencies ?? {}).sort(),
+  };
+}
+
+function buildSignals(
+  registry: NpmRegistryPackage | null,
+  input: CandidateEvidenceInput,
+  notes: CollectedReleaseNotes | null
+): NextUpdatesSignals {
+  const signals: NextUpdatesSignals = {};
+  const breaking = detectBreakingChanges(notes);
+  if (breaking) {
+    signals.breaking = breaking;
+  }
+  const deprecation = registry
+    ? detectDeprecation(registry, input.installedVersion, input.targetVersion)
+    : null;
+  if (deprecation) {
+    signals.deprecation = deprecation;
+  }
+  return signals;
+}
+
 function buildVersionWindow(
   registry: NpmRegistryPackage,
   installedVersion: string,
@@ -260,43 +409,240 @@ function buildEvidenceLinks(
   return { links: cleaned };
 }
 
-async function buildCompareEvidence(options: {
+async function buildReleaseNotes(
+  input: CandidateEvidenceInput,
+  source: ForgeSource,
+  changelogUrl: string | null,
+  context: EvidenceContext
+): Promise<CollectedReleaseNotes | null> {
+  const { installedVersion, targetVersion } = input;
+  if (!(installedVersion && targetVersion)) {
+    return null;
+  }
+  const releases = source.forge.releases;
+  return collectReleaseNotes({
+    http: context.clients.http,
+    packageName: input.packageName,
+    packageScoped: source.forge.directory !== null,
+    releases: releases
+      ? {
+          pageUrl: releases.pageUrl,
+          list: await listReleases(releases, source.github, context),
+        }
+      : null,
+    changelogUrl,
+    installedVersion,
+    targetVersion,
+  });
+}
+
+async function buildPackageDiff(
+  input: CandidateEvidenceInput,
+  registry: NpmRegistryPackage | null,
+  context: EvidenceContext
+): Promise<NextUpdatesPackageDiff | undefined> {
+  const { installedVersion, targetVersion } = input;
+  if (
+    !(
+      context.options.packageDiff &&
+      registry &&
+      installedVersion &&
+      targetVersion
+    )
+  ) {
+    return;
+  }
+  const diff = await collectPackageDiff({
+    tarballs: context.clients.tarballs,
+    registry,
+    packageName: input.packageName,
+    installedVersion,
+    targetVersion,
+    cache: context.tarballCache,
+  });
+  return diff ?? undefined;
+}
+
+// Release metadata is only reported with the GitHub API backend.
+async function buildWindowReleases(
+  input: CandidateEvidenceInput,
+  forge: Forge | null,
+  github: GitHubBackend | null,
+  context: EvidenceContext
+): Promise<NextUpdatesRelease[] | undefined> {
+  const { installedVersion, targetVersion } = input;
+  const releases = forge?.releases;
+  if (!(github && releases && installedVersion && targetVersion)) {
+    return;
+  }
+  const list = await listReleases(releases, github, context);
+  return list
+    ? selectReleases(list, {
+        packageName: input.packageName,
+        packageScoped: forge.directory !== null,
+        installedVersion,
+        targetVersion,
+      })
+    : undefined;
+}
+
+function addEvidenceDetails(
+  evidence: NextUpdatesEvidence | null,
+  details: Omit<NextUpdatesEvidence, "links">
+): NextUpdatesEvidence | null {
+  const defined = Object.entries(details).filter(
+    ([, value]) => value !== undefined
+  );
+  if (defined.length === 0) {
+    return evidence;
+  }
+  return { links: evidence?.links ?? {}, ...Object.fromEntries(defined) };
+}
+
+// The GitHub API backend serves github.com repositories when a token is set.
+function getGitHubBackend(
+  forge: Forge,
+  clients: EvidenceClients
+): GitHubBackend | null {
+  const repoPath = readGitHubRepoPath(forge);
+  return clients.github && repoPath
+    ? { client: clients.github, repoPath }
+    : null;
+}
+
+function listReleases(
+  releases: ForgeReleases,
+  github: GitHubBackend | null,
+  context: EvidenceContext
+): Promise<NextUpdatesRelease[] | null> {
+  return getForgeReleases(
+    context.clients.http,
+    releases,
+    context.releaseListCache,
+    github?.client.headers
+  );
+}
+
+type CompareEvidenceOptions = {
+  forge: Forge;
+  github: GitHubBackend | null;
   registry: NpmRegistryPackage;
   packageName: string;
   installedVersion: string;
   targetVersion: string;
-  urlReachableCache: Map<string, Promise<boolean>>;
-}): Promise<string | null> {
-  const repositoryUrl = normalizeRepositoryUrl(options.registry.repository);
-  if (!repositoryUrl) {
+  context: EvidenceContext;
+};
+
+type CompareEvidence = {
+  url: string;
+  strategy: NextUpdatesCompareStrategy;
+  tags: CompareTagPair | null;
+};
+
+// Tags first (exact ones from the GitHub API, else probed names), then the
+// commits each version was published from.
+async function buildCompareEvidence(
+  options: CompareEvidenceOptions
+): Promise<CompareEvidence | null> {
+  return (
+    (await buildTagCompareEvidence(options)) ??
+    (await buildGitHeadCompareEvidence(options))
+  );
+}
+
+async function buildGitHeadCompareEvidence(
+  options: CompareEvidenceOptions
+): Promise<CompareEvidence | null> {
+  const versions = options.registry.versions ?? {};
+  const from = versions[options.installedVersion]?.gitHead;
+  const to = versions[options.targetVersion]?.gitHead;
+  if (!(from && to) || from === to) {
     return null;
   }
+  const url = options.forge.compareUrl(from, to);
+  return (await isUrlReachable(url, options.context))
+    ? { url, strategy: "git-head", tags: null }
+    : null;
+}
 
+async function buildTagCompareEvidence(
+  options: CompareEvidenceOptions
+): Promise<CompareEvidence | null> {
   const fromVersion = normalizeTagVersion(options.installedVersion);
   const toVersion = normalizeTagVersion(options.targetVersion);
   if (!(fromVersion && toVersion)) {
     return null;
   }
 
+  const packageFirst = options.forge.directory !== null;
+  const tags = options.github
+    ? await findExactTags(options.github, {
+        packageName: options.packageName,
+        fromVersion,
+        toVersion,
+        packageFirst,
+      })
+    : null;
+  if (tags) {
+    return {
+      url: options.forge.compareUrl(tags.from, tags.to),
+      strategy: "github-tags",
+      tags,
+    };
+  }
+
   const tagPairs = buildCompareTagPairs(
     options.packageName,
     fromVersion,
-    toVersion
+    toVersion,
+    packageFirst
   );
   for (const pair of tagPairs) {
-    const compareUrl = buildCompareUrl(repositoryUrl, pair);
-    const reachable = await isUrlReachable(
-      compareUrl,
-      options.urlReachableCache
-    );
+    const compareUrl = options.forge.compareUrl(pair.from, pair.to);
+    const reachable = await isUrlReachable(compareUrl, options.context);
     if (reachable) {
-      return compareUrl;
+      return { url: compareUrl, strategy: "tag-probe", tags: null };
     }
   }
 
   return null;
 }
 
+// Looks both versions up among the repository's real tags: the conventional
+// names exactly, plus a search by version for unconventional ones. null when
+// the API is unavailable or either version has no tag, so the caller falls
+// back to probing.
+async function findExactTags(
+  github: GitHubBackend,
+  options: {
+    packageName: string;
+    fromVersion: string;
+    toVersion: string;
+    packageFirst: boolean;
+  }
+): Promise<CompareTagPair | null> {
+  const versions = [options.fromVersion, options.toVersion];
+  const found = await github.client.findTags(
+    github.repoPath,
+    versions.map((version) => ({
+      names: buildTagNames(options.packageName, version, options.packageFirst),
+      query: version,
+    }))
+  );
+  if (!found) {
+    return null;
+  }
+  const [from, to] = versions.map((version, index) =>
+    pickExactTag(
+      found[index] ?? [],
+      options.packageName,
+      version,
+      options.packageFirst
+    )
+  );
+  return from && to ? { from, to } : null;
+}
+
 function buildNpmDiffLink(
   packageName: string,
   installedVersion: string | null,
@@ -334,17 +680,14 @@ function normalizeTagVersion(version: string): string | null {
 }
 
 async function buildRepositoryEvidenceLinks(
-  registry: NpmRegistryPackage,
-  urlReachableCache: Map<string, Promise<boolean>>,
-  releasesCache: Map<string, Promise<string | null>>
+  forge: Forge,
+  github: GitHubBackend | null,
+  context: EvidenceContext
 ): Promise<{ releases?: string; changelog?: string }> {
-  const repositoryUrl = normalizeRepositoryUrl(registry.repository);
-  if (!repositoryUrl) {
-    return {};
-  }
-
-  const releases = await resolveReleasesUrl(repositoryUrl, releasesCache);
-  const changelog = await resolveChangelogUrl(repositoryUrl, urlReachableCache);
+  const releases = forge.releases
+    ? await resolveReleasesLink(forge.releases, github, context)
+    : null;
+  const changelog = await resolveChangelogUrl(forge, context);
 
   return {
     releases: releases ?? undefined,
@@ -352,27 +695,44 @@ async function buildRepositoryEvidenceLinks(
   };
 }
 
+// With the API backend the release list answers directly; without it (or
+// when the API fails) the latest-release redirect is probed.
+async function resolveReleasesLink(
+  releases: ForgeReleases,
+  github: GitHubBackend | null,
+  context: EvidenceContext
+): Promise<string | null> {
+  if (github) {
+    const list = await listReleases(releases, github, context);
+    if (list) {
+      return list.length > 0 ? releases.pageUrl : null;
+    }
+  }
+  return resolveReleasesUrl(releases, context);
+}
+
 function resolveReleasesUrl(
-  repositoryUrl: string,
-  releasesCache: Map<string, Promise<string | null>>
+  releases: ForgeReleases,
+  context: EvidenceContext
 ): Promise<string | null> {
-  const cached = releasesCache.get(repositoryUrl);
+  const cached = context.releasesCache.get(releases.pageUrl);
   if (cached) {
     return cached;
   }
 
-  const resolvePromise = resolveReleasesUrlUncached(repositoryUrl);
-  releasesCache.set(repositoryUrl, resolvePromise);
+  const resolvePromise = resolveReleasesUrlUncached(releases, context.clients);
+  context.releasesCache.set(releases.pageUrl, resolvePromise);
   return resolvePromise;
 }
 
 async function resolveReleasesUrlUncached(
-  repositoryUrl: string
+  releases: ForgeReleases,
+  clients: EvidenceClients
 ): Promise<string | null> {
-  const latestUrl = `${repositoryUrl}/releases/latest`;
+  const latestUrl = releases.latestUrl;
   try {
     // Probe releases via the latest redirect without downloading the full list.
-    const response = await fetch(latestUrl, {
+    const response = await clients.http.request(latestUrl, {
       method: "HEAD",
       redirect: "manual",
     });
@@ -387,24 +747,19 @@ async function resolveReleasesUrlUncached(
     if (!resolved) {
       return null;
     }
-    if (!resolved.includes("/releases/tag/")) {
+    if (!resolved.includes(releases.tagPath)) {
       return null;
     }
-    return `${repositoryUrl}/releases`;
+    return releases.pageUrl;
   } catch {
     return null;
   }
 }
 
 async function resolveChangelogUrl(
-  repositoryUrl: string,
-  urlReachableCache: Map<string, Promise<boolean>>
+  forge: Forge,
+  context: EvidenceContext
 ): Promise<string | null> {
-  const rawBase = buildRawGithubBaseUrl(repositoryUrl);
-  if (!rawBase) {
-    return null;
-  }
-
   const candidates = [
     "CHANGELOG.md",
     "CHANGELOG",
@@ -420,9 +775,16 @@ async function resolveChangelogUrl(
     "docs/changelog.md",
   ];
 
-  for (const candidate of candidates) {
-    const url = `${rawBase}${candidate}`;
-    const reachable = await isUrlReachable(url, urlReachableCache);
+  // Monorepo packages keep their own changelog next to their package.json.
+  const filePaths = forge.directory
+    ? [
+        ...candidates.map((candidate) => `${forge.directory}/${candidate}`),
+        ...candidates,
+      ]
+    : candidates;
+  for (const filePath of filePaths) {
+    const url = forge.rawFileUrl(filePath);
+    const reachable = await isUrlReachable(url, context);
     if (reachable) {
       return url;
     }
@@ -431,18 +793,6 @@ async function resolveChangelogUrl(
   return null;
 }
 
-function buildRawGithubBaseUrl(repositoryUrl: string): string | null {
-  const prefix = "https://github.com/";
-  if (!repositoryUrl.startsWith(prefix)) {
-    return null;
-  }
-  const repoPath = repositoryUrl.slice(prefix.length);
-  if (repoPath.trim() === "") {
-    return null;
-  }
-  return `https://raw.githubusercontent.com/${repoPath}/HEAD/`;
-}
-
 function resolveRedirectUrl(baseUrl: string, location: string): string | null {
   try {
     return new URL(location, baseUrl).toString();
@@ -454,66 +804,34 @@ function resolveRedirectUrl(baseUrl: string, location: string): string | null {
 function buildCompareTagPairs(
   packageName: string,
   fromVersion: string,
-  toVersion: string
+  toVersion: string,
+  packageFirst: boolean
 ): CompareTagPair[] {
-  const unscoped = getUnscopedPackageName(packageName);
-  const pairs: CompareTagPair[] = [
-    { from: `v${fromVersion}`, to: `v${toVersion}` },
-    { from: fromVersion, to: toVersion },
-    {
-      from: `${packageName}@${fromVersion}`,
-      to: `${packageName}@${toVersion}`,
-    },
-  ];
-
-  if (unscoped && unscoped !== packageName) {
-    pairs.push({
-      from: `${unscoped}@${fromVersion}`,
-      to: `${unscoped}@${toVersion}`,
-    });
-  }
-
-  return pairs;
-}
-
-function getUnscopedPackageName(packageName: string): string {
-  if (!packageName.startsWith("@")) {
-    return packageName;
-  }
-  const slashIndex = packageName.indexOf("/");
-  if (slashIndex === -1) {
-    return packageName;
-  }
-  return packageName.slice(slashIndex + 1);
-}
-
-function buildCompareUrl(repoUrl: string, pair: CompareTagPair): string {
-  const fromTag = encodeGitTag(pair.from);
-  const toTag = encodeGitTag(pair.to);
-  return `${repoUrl}/compare/${fromTag}...${toTag}`;
-}
-
-function encodeGitTag(tag: string): string {
-  return encodeURIComponent(tag);
+  const fromTags = buildTagNames(packageName, fromVersion, packageFirst);
+  const toTags = buildTagNames(packageName, toVersion, packageFirst);
+  return fromTags.map((from, index) => ({ from, to: toTags[index] }));
 }
 
 function isUrlReachable(
   url: string,
-  cache: Map<string, Promise<boolean>>
+  context: EvidenceContext
 ): Promise<boolean> {
-  const cached = cache.get(url);
+  const cached = context.urlReachableCache.get(url);
   if (cached) {
     return cached;
   }
 
-  const checkPromise = checkUrl(url);
-  cache.set(url, checkPromise);
+  const checkPromise = checkUrl(url, context.clients);
+  context.urlReachableCache.set(url, checkPromise);
   return checkPromise;
 }
 
-async function checkUrl(url: string): Promise<boolean> {
+async function checkUrl(
+  url: string,
+  clients: EvidenceClients
+): Promise<boolean> {
   try {
-    const response = await fetch(url, { method: "HEAD" });
+    const response = await clients.http.request(url, { method: "HEAD" });
     return response.status >= 200 && response.status < 400;
   } catch {
     return false;
@@ -522,73 +840,20 @@ async function checkUrl(url: string): Promise<boolean> {
 
 function getRegistryPackage(
   packageName: string,
-  cache: Map<string, Promise<NpmRegistryPackage | null>>
+  context: EvidenceContext
 ): Promise<NpmRegistryPackage | null> {
-  const cached = cache.get(packageName);
+  const cached = context.registryCache.get(packageName);
   if (cached) {
     return cached;
   }
 
-  const fetchPromise = fetchRegistryPackage(packageName);
-  cache.set(packageName, fetchPromise);
+  const fetchPromise = context.clients.registry
+    .getPackage(packageName)
+    .catch(() => null);
+  context.registryCache.set(packageName, fetchPromise);
   return fetchPromise;
 }
 
-async function fetchRegistryPackage(
-  packageName: string
-): Promise<NpmRegistryPackage | null> {
-  try {
-    const encoded = encodeURIComponent(packageName);
-    const response = await fetch(`${npmRegistryBaseUrl}/${encoded}`, {
-      headers: {
-        Accept: "application/json",
-      },
-    });
-    if (!response.ok) {
-      return null;
-    }
-    const data: unknown = await response.json();
-    if (!isRecord(data)) {
-      return null;
-    }
-    return data as NpmRegistryPackage;
-  } catch {
-    return null;
-  }
-}
-
-function normalizeRepositoryUrl(
-  repository: NpmRegistryRepository | undefined
-): string | null {
-  let raw: string | null = null;
-  if (typeof repository === "string") {
-    raw = repository;
-  } else if (repository && typeof repository.url === "string") {
-    raw = repository.url;
-  }
-  if (!raw) {
-    return null;
-  }
-
-  let cleaned = raw.trim();
-  if (cleaned.startsWith("github:")) {
-    cleaned = `https://github.com/${cleaned.slice("github:".length)}`;
-  }
-  cleaned = cleaned.replace(gitPlusRegex, "");
-  cleaned = cleaned.replace(gitProtocolRegex, "https://");
-  cleaned = cleaned.replace(gitSshRegex, "https://github.com/");
-  cleaned = cleaned.replace(gitAtRegex, "https://github.com/");
-  cleaned = cleaned.replace(gitHashRegex, "");
-
-  const match = gitHubRepoRegex.exec(cleaned);
-  if (!match) {
-    return null;
-  }
-
-  const repoPath = match[1].replace(gitSuffixRegex, "");
-  return `https://github.com/${repoPath}`;
-}
-
 function isRecord(value: unknown): value is Record<string, unknown> {
   return typeof value === "object" && value !== null;
 }
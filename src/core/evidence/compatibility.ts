@@ -0,0 +1,245 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+
+import { satisfies, subset, validRange } from "semver";
+
+import type { RepoNodeVersion } from "../../infra/fs/node-version";
+import type { InstalledVersionLookup } from "../lockfiles/detect";
+import type {
+  NpmRegistryPackage,
+  NpmRegistryVersionManifest,
+} from "../registry/types";
+
+export type NextUpdatesEnginesCompatibility = {
+  installed: string | null;
+  target: string | null;
+  repoNode: RepoNodeVersion | null;
+  satisfied: boolean | null;
+};
+
+export type NextUpdatesPeerCompatibility = {
+  name: string;
+  change: "added" | "changed" | "removed" | "unchanged";
+  installedRange: string | null;
+  targetRange: string | null;
+  installedVersion: string | null;
+  satisfied: boolean | null;
+};
+
+export type NextUpdatesCompatibility = {
+  compatible: boolean;
+  engines: NextUpdatesEnginesCompatibility | null;
+  peerDependencies: NextUpdatesPeerCompatibility[];
+};
+
+export type CompatibilityRepoContext = {
+  node: RepoNodeVersion | null;
+  getInstalledVersion(packageFile: string, packageName: string): string | null;
+};
+
+type DeclaredRanges = Record<string, string>;
+
+const declaredRangeFields = [
+  "dependencies",
+  "devDependencies",
+  "optionalDependencies",
+  "peerDependencies",
+] as const;
+
+export async function createCompatibilityRepoContext(options: {
+  cwd: string;
+  node: RepoNodeVersion | null;
+  installedVersionLookup: InstalledVersionLookup;
+  packageFiles: readonly string[];
+}): Promise<CompatibilityRepoContext> {
+  const declared = new Map<string, DeclaredRanges>();
+  for (const packageFile of new Set(options.packageFiles)) {
+    declared.set(
+      packageFile,
+      await readDeclaredRanges(path.resolve(options.cwd, packageFile))
+    );
+  }
+
+  return {
+    node: options.node,
+    getInstalledVersion(packageFile, packageName) {
+      // Yarn lookups match on the declared range, so pass it through.
+      const range = declared.get(packageFile)?.[packageName] ?? "";
+      return options.installedVersionLookup(packageFile, packageName, range);
+    },
+  };
+}
+
+export function checkCompatibility(options: {
+  registry: NpmRegistryPackage;
+  packageFile: string;
+  installedVersion: string | null;
+  targetVersion: string | null;
+  repo: CompatibilityRepoContext;
+}): NextUpdatesCompatibility | null {
+  const installed = readManifest(options.registry, options.installedVersion);
+  const target = readManifest(options.registry, options.targetVersion);
+  if (!target) {
+    return null;
+  }
+
+  const engines = checkEngines(installed, target, options.repo.node);
+  const peerDependencies = checkPeers(installed, target, (name) =>
+    options.repo.getInstalledVersion(options.packageFile, name)
+  );
+  if (!engines && peerDependencies.length === 0) {
+    return null;
+  }
+
+  const compatible =
+    engines?.satisfied !== false &&
+    peerDependencies.every((peer) => peer.satisfied !== false);
+  return { compatible, engines, peerDependencies };
+}
+
+function checkEngines(
+  installed: NpmRegistryVersionManifest | null,
+  target: NpmRegistryVersionManifest,
+  repoNode: RepoNodeVersion | null
+): NextUpdatesEnginesCompatibility | null {
+  const installedRange = readNodeEngine(installed);
+  const targetRange = readNodeEngine(target);
+  if (!targetRange) {
+    return null;
+  }
+  // An unchanged range is still reported when the repo's Node falls outside
+  // it, since the target carries that incompatibility over.
+  const satisfied = repoNode
+    ? isRangeSubset(repoNode.range, targetRange)
+    : null;
+  if (installedRange === targetRange && satisfied !== false) {
+    return null;
+  }
+
+  return {
+    installed: installedRange,
+    target: targetRange,
+    repoNode,
+    satisfied,
+  };
+}
+
+// Reports peers that were added, removed or re-ranged by the target, plus
+// unchanged peers the currently installed peer version no longer satisfies.
+function checkPeers(
+  installed: NpmRegistryVersionManifest | null,
+  target: NpmRegistryVersionManifest,
+  getInstalledVersion: (packageName: string) => string | null
+): NextUpdatesPeerCompatibility[] {
+  const installedPeers = installed?.peerDependencies ?? {};
+  const targetPeers = target.peerDependencies ?? {};
+  const names = Array.from(
+    new Set([...Object.keys(installedPeers), ...Object.keys(targetPeers)])
+  ).sort();
+
+  const peers: NextUpdatesPeerCompatibility[] = [];
+  for (const name of names) {
+    const installedRange = installedPeers[name] ?? null;
+    const targetRange = targetPeers[name] ?? null;
+    const installedVersion = getInstalledVersion(name);
+    const optional = target.peerDependenciesMeta?.[name]?.optional === true;
+    const satisfied =
+      targetRange && installedVersion
+        ? satisfiesRange(installedVersion, targetRange)
+        : null;
+    const change = classifyPeerChange(installedRange, targetRange);
+    if (change === "unchanged" && satisfied !== false) {
+      continue;
+    }
+    if (optional && installedVersion === null) {
+      continue;
+    }
+    peers.push({
+      name,
+      change,
+      installedRange,
+      targetRange,
+      installedVersion,
+      satisfied,
+    });
+  }
+  return peers;
+}
+
+function classifyPeerChange(
+  installedRange: string | null,
+  targetRange: string | null
+): NextUpdatesPeerCompatibility["change"] {
+  if (installedRange === null) {
+    return "added";
+  }
+  if (targetRange === null) {
+    return "removed";
+  }
+  return installedRange === targetRange ? "unchanged" : "changed";
+}
+
+function readManifest(
+  registry: NpmRegistryPackage,
+  version: string | null
+): NpmRegistryVersionManifest | null {
+  if (!version) {
+    return null;
+  }
+  const manifest = registry.versions?.[version];
+  return typeof manifest === "object" && manifest !== null ? manifest : null;
+}
+
+function readNodeEngine(
+  manifest: NpmRegistryVersionManifest | null
+): string | null {
+  const node = manifest?.engines?.node;
+  return typeof node === "string" && node.trim() !== "" ? node.trim() : null;
+}
+
+// The repo range must fit inside the target range: every Node version the
+// repo supports has to be accepted by the new release.
+function isRangeSubset(repoRange: string, targetRange: string): boolean | null {
+  if (!(validRange(repoRange) && validRange(targetRange))) {
+    return null;
+  }
+  try {
+    return subset(repoRange, targetRange, { includePrerelease: true });
+  } catch {
+    return null;
+  }
+}
+
+function satisfiesRange(version: string, range: string): boolean | null {
+  if (!validRange(range)) {
+    return null;
+  }
+  return satisfies(version, range, { includePrerelease: true });
+}
+
+async function readDeclaredRanges(
+  packageJsonPath: string
+): Promise<DeclaredRanges> {
+  try {
+    const raw = await fs.readFile(packageJsonPath, "utf8");
+    const parsed: unknown = JSON.parse(raw);
+    if (typeof parsed !== "object" || parsed === null) {
+      return {};
+    }
+    const ranges: DeclaredRanges = {};
+    for (const field of declaredRangeFields) {
+      const entries = (parsed as Record<string, unknown>)[field];
+      if (typeof entries !== "object" || entries === null) {
+        continue;
+      }
+      for (const [name, range] of Object.entries(entries)) {
+        if (typeof range === "string" && ranges[name] === undefined) {
+          ranges[name] = range;
+        }
+      }
+    }
+    return ranges;
+  } catch {
+    return {};
+  }
+}
@@ -0,0 +1,69 @@
+import type {
+  NpmRegistryPackage,
+  NpmRegistryVersionManifest,
+} from "../registry/types";
+
+export type NextUpdatesDeprecation = {
+  installed: string | null;
+  target: string | null;
+  package: {
+    message: string;
+    replacement: string | null;
+  } | null;
+};
+
+const replacementPatterns = [
+  /\b(?:use|try|install)\s+(?:the\s+)?[`'"]?(@?[a-z0-9][\w.-]*(?:\/[\w.-]+)?)[`'"]?\s+(?:package\s+)?instead\b/i,
+  /\b(?:moved|renamed|migrated)\s+to\s+[`'"]?(@?[a-z0-9][\w.-]*(?:\/[\w.-]+)?)[`'"]?/i,
+  /\b(?:replaced|superseded)\s+by\s+[`'"]?(@?[a-z0-9][\w.-]*(?:\/[\w.-]+)?)[`'"]?/i,
+  /\bplease\s+(?:use|switch\s+to)\s+[`'"]?(@?[a-z0-9][\w.-]*(?:\/[\w.-]+)?)[`'"]?/i,
+];
+const trailingPunctuationRegex = /[.,;:]+$/;
+
+// The whole package counts as deprecated when its "latest" dist-tag is.
+export function detectDeprecation(
+  registry: NpmRegistryPackage,
+  installedVersion: string | null,
+  targetVersion: string | null
+): NextUpdatesDeprecation | null {
+  const installed = readDeprecatedMessage(registry, installedVersion);
+  const target = readDeprecatedMessage(registry, targetVersion);
+  const latestMessage = readDeprecatedMessage(
+    registry,
+    registry["dist-tags"]?.latest ?? null
+  );
+  const packageDeprecation = latestMessage
+    ? { message: latestMessage, replacement: findReplacement(latestMessage) }
+    : null;
+
+  if (!(installed || target || packageDeprecation)) {
+    return null;
+  }
+  return { installed, target, package: packageDeprecation };
+}
+
+function findReplacement(message: string): string | null {
+  for (const pattern of replacementPatterns) {
+    const match = pattern.exec(message);
+    if (match) {
+      return match[1].replace(trailingPunctuationRegex, "");
+    }
+  }
+  return null;
+}
+
+function readDeprecatedMessage(
+  registry: NpmRegistryPackage,
+  version: string | null
+): string | null {
+  if (!version) {
+    return null;
+  }
+  const manifest: NpmRegistryVersionManifest | undefined =
+    registry.versions?.[version];
+  const deprecated = manifest?.deprecated;
+  if (typeof deprecated !== "string" || deprecated.trim() === "") {
+    return null;
+  }
+  return deprecated.trim();
+}
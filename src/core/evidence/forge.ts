@@ -0,0 +1,219 @@
+import type { NextUpdatesForge } from "../../config/options";
+import type { NpmRegistryRepository } from "../registry/types";
+
+type ForgeKind = NextUpdatesForge;
+
+// Self-hosted forges by host ("git.example.com" or "git.example.com:8443").
+export type ForgeHosts = Record<string, ForgeKind>;
+
+export type ForgeReleases = {
+  // Page linked from the report.
+  pageUrl: string;
+  // Redirects to the newest release when the repository publishes any.
+  latestUrl: string;
+  // Path the latest redirect lands on, e.g. "/releases/tag/".
+  tagPath: string;
+  // JSON list of releases with `tag_name` and `body` (or `description`).
+  apiUrl: string;
+};
+
+export type Forge = {
+  kind: ForgeKind;
+  // Web URL of the repository, e.g. https://gitlab.com/group/sub/project.
+  repositoryUrl: string;
+  // `repository.directory` without surrounding slashes; null at the root.
+  directory: string | null;
+  // null on forges without a releases feature (Bitbucket).
+  releases: ForgeReleases | null;
+  rawFileUrl: (filePath: string) => string;
+  compareUrl: (fromTag: string, toTag: string) => string;
+};
+
+const builtInHosts: ForgeHosts = {
+  "github.com": "github",
+  "gitlab.com": "gitlab",
+  "bitbucket.org": "bitbucket",
+  "codeberg.org": "gitea",
+};
+
+const shorthandHosts: Record<string, string> = {
+  github: "github.com",
+  gitlab: "gitlab.com",
+  bitbucket: "bitbucket.org",
+};
+
+const shorthandRegex = /^(github|gitlab|bitbucket):([^#]+)/;
+const bareShorthandRegex = /^[^/@:\s]+\/[^/@:\s]+$/;
+const gitPlusRegex = /^git\+/;
+const scpLikeRegex = /^(?:[^@/]+@)?([^/:]+):(?!\/)(.+)$/;
+const gitHashRegex = /#.*$/;
+const gitSuffixRegex = /\.git$/;
+
+// Maps a package.json `repository` to the forge hosting it; null for hosts
+// that are neither built in nor configured.
+export function resolveForge(
+  repository: NpmRegistryRepository | undefined,
+  hosts: ForgeHosts = {}
+): Forge | null {
+  const location = parseRepositoryLocation(repository);
+  if (!location) {
+    return null;
+  }
+  const kind =
+    hosts[location.host] ??
+    hosts[location.hostname] ??
+    builtInHosts[location.hostname];
+  if (!kind) {
+    return null;
+  }
+  const repoPath = trimRepositoryPath(kind, location.path);
+  if (!repoPath) {
+    return null;
+  }
+  return {
+    ...createForge(kind, `https://${location.host}`, repoPath),
+    directory: readRepositoryDirectory(repository),
+  };
+}
+
+function createForge(
+  kind: ForgeKind,
+  origin: string,
+  repoPath: string
+): Omit<Forge, "directory"> {
+  const repositoryUrl = `${origin}/${repoPath}`;
+  switch (kind) {
+    case "github":
+      return {
+        kind,
+        repositoryUrl,
+        releases: {
+          pageUrl: `${repositoryUrl}/releases`,
+          latestUrl: `${repositoryUrl}/releases/latest`,
+          tagPath: "/releases/tag/",
+          apiUrl:
+            origin === "https://github.com"
+              ? `https://api.github.com/repos/${repoPath}/releases?per_page=100`
+              : `${origin}/api/v3/repos/${repoPath}/releases?per_page=100`,
+        },
+        rawFileUrl: (filePath) =>
+          origin === "https://github.com"
+            ? `https://raw.githubusercontent.com/${repoPath}/HEAD/${filePath}`
+            : `${repositoryUrl}/raw/HEAD/${filePath}`,
+        compareUrl: (fromTag, toTag) =>
+          `${repositoryUrl}/compare/${encodeGitTag(fromTag)}...${encodeGitTag(toTag)}`,
+      };
+    case "gitlab":
+      return {
+        kind,
+        repositoryUrl,
+        releases: {
+          pageUrl: `${repositoryUrl}/-/releases`,
+          latestUrl: `${repositoryUrl}/-/releases/permalink/latest`,
+          tagPath: "/-/releases/",
+          apiUrl: `${origin}/api/v4/projects/${encodeURIComponent(repoPath)}/releases?per_page=100`,
+        },
+        rawFileUrl: (filePath) => `${repositoryUrl}/-/raw/HEAD/${filePath}`,
+        compareUrl: (fromTag, toTag) =>
+          `${repositoryUrl}/-/compare/${encodeGitTag(fromTag)}...${encodeGitTag(toTag)}`,
+      };
+    case "bitbucket":
+      return {
+        kind,
+        repositoryUrl,
+        releases: null,
+        rawFileUrl: (filePath) => `${repositoryUrl}/raw/HEAD/${filePath}`,
+        // Bitbucket compares "<to>%0D<from>".
+        compareUrl: (fromTag, toTag) =>
+          `${repositoryUrl}/branches/compare/${encodeGitTag(toTag)}%0D${encodeGitTag(fromTag)}`,
+      };
+    default:
+      return {
+        kind,
+        repositoryUrl,
+        releases: {
+          pageUrl: `${repositoryUrl}/releases`,
+          latestUrl: `${repositoryUrl}/releases/latest`,
+          tagPath: "/releases/tag/",
+          apiUrl: `${origin}/api/v1/repos/${repoPath}/releases?limit=50`,
+        },
+        // Gitea serves ref-less raw paths from the default branch.
+        rawFileUrl: (filePath) => `${repositoryUrl}/raw/${filePath}`,
+        compareUrl: (fromTag, toTag) =>
+          `${repositoryUrl}/compare/${encodeGitTag(fromTag)}...${encodeGitTag(toTag)}`,
+      };
+  }
+}
+
+function parseRepositoryLocation(
+  repository: NpmRegistryRepository | undefined
+): { host: string; hostname: string; path: string } | null {
+  let raw: string | null = null;
+  if (typeof repository === "string") {
+    raw = repository;
+  } else if (repository && typeof repository.url === "string") {
+    raw = repository.url;
+  }
+  if (!raw) {
+    return null;
+  }
+
+  let cleaned = raw.trim().replace(gitPlusRegex, "");
+  const shorthand = shorthandRegex.exec(cleaned);
+  if (shorthand) {
+    cleaned = `https://${shorthandHosts[shorthand[1]]}/${shorthand[2]}`;
+  } else if (bareShorthandRegex.test(cleaned)) {
+    cleaned = `https://github.com/${cleaned}`;
+  }
+  const scpLike = scpLikeRegex.exec(cleaned);
+  if (scpLike && !cleaned.includes("://")) {
+    cleaned = `ssh://${scpLike[1]}/${scpLike[2]}`;
+  }
+
+  try {
+    const url = new URL(cleaned.replace(gitHashRegex, ""));
+    // SSH ports never match the web UI, so only keep them for http(s).
+    const webUrl = url.protocol.startsWith("http");
+    return {
+      host: webUrl ? url.host : url.hostname,
+      hostname: url.hostname,
+      path: decodeURIComponent(url.pathname),
+    };
+  } catch {
+    return null;
+  }
+}
+
+function readRepositoryDirectory(
+  repository: NpmRegistryRepository | undefined
+): string | null {
+  if (
+    typeof repository !== "object" ||
+    typeof repository.directory !== "string"
+  ) {
+    return null;
+  }
+  const directory = repository.directory
+    .split("/")
+    .filter((segment) => segment !== "" && segment !== ".")
+    .join("/");
+  return directory === "" ? null : directory;
+}
+
+// GitLab nests groups and marks deep links with "/-/"; the other forges use
+// exactly two segments.
+function trimRepositoryPath(kind: ForgeKind, pathname: string): string | null {
+  const segments = pathname
+    .split("/-/")[0]
+    .split("/")
+    .filter((segment) => segment !== "");
+  const kept = kind === "gitlab" ? segments : segments.slice(0, 2);
+  if (kept.length < 2) {
+    return null;
+  }
+  return kept.join("/").replace(gitSuffixRegex, "");
+}
+
+function encodeGitTag(tag: string): string {
+  return encodeURIComponent(tag);
+}
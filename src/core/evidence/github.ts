@@ -0,0 +1,120 @@
+import type { HttpClient } from "../../infra/http/client";
+import type { Forge } from "./forge";
+
+export type GitHubApiClient = {
+  // Headers for authenticated REST calls to api.github.com.
+  headers: Record<string, string>;
+  // For each lookup, the listed names that exist as tags followed by up to
+  // 100 tags containing the query, in lookup order; null when the API call
+  // fails (bad token, rate limit, missing repository).
+  findTags(
+    repoPath: string,
+    lookups: readonly GitHubTagLookup[]
+  ): Promise<string[][] | null>;
+};
+
+export type GitHubTagLookup = {
+  // Exact tag names to check, e.g. the conventional names for one version.
+  names: readonly string[];
+  // Substring search for unconventional names; the search only returns the
+  // first 100 matches, so busy monorepos rely on `names`.
+  query: string;
+};
+
+const graphqlUrl = "https://api.github.com/graphql";
+const gitHubRepositoryPrefix = "https://github.com/";
+const maxTagsPerQuery = 100;
+
+// Only github.com repositories go through the API, so the token is never
+// sent to self-hosted hosts.
+export function readGitHubRepoPath(forge: Forge): string | null {
+  if (
+    forge.kind !== "github" ||
+    !forge.repositoryUrl.startsWith(gitHubRepositoryPrefix)
+  ) {
+    return null;
+  }
+  return forge.repositoryUrl.slice(gitHubRepositoryPrefix.length);
+}
+
+export function createGitHubApiClient(
+  http: HttpClient,
+  token: string
+): GitHubApiClient {
+  const headers = { Authorization: `Bearer ${token}` };
+  return {
+    headers,
+    async findTags(repoPath, lookups) {
+      const [owner, name] = repoPath.split("/");
+      const variables: Record<string, string> = { owner, name };
+      const fields: string[] = [];
+      lookups.forEach((lookup, index) => {
+        variables[`q${index}`] = lookup.query;
+        fields.push(
+          `q${index}: refs(refPrefix: "refs/tags/", query: $q${index}, first: ${maxTagsPerQuery}) { nodes { name } }`
+        );
+        lookup.names.forEach((tagName, nameIndex) => {
+          variables[`q${index}_${nameIndex}`] = `refs/tags/${tagName}`;
+          fields.push(
+            `q${index}_${nameIndex}: ref(qualifiedName: $q${index}_${nameIndex}) { name }`
+          );
+        });
+      });
+      const params = Object.keys(variables)
+        .filter((key) => key !== "owner" && key !== "name")
+        .map((key) => `$${key}: String!`);
+      const body = JSON.stringify({
+        query: `query($owner: String!, $name: String!, ${params.join(", ")}) { repository(owner: $owner, name: $name) { ${fields.join(" ")} } }`,
+        variables,
+      });
+      try {
+        const response = await http.request(graphqlUrl, {
+          method: "POST",
+          headers: { ...headers, "Content-Type": "application/json" },
+          body,
+        });
+        if (!response.ok) {
+          return null;
+        }
+        const data: unknown = await response.json();
+        const repository = readPath(data, ["data", "repository"]);
+        if (!isRecord(repository)) {
+          return null;
+        }
+        return lookups.map((lookup, index) => [
+          ...lookup.names.filter((_, nameIndex) =>
+            isRecord(repository[`q${index}_${nameIndex}`])
+          ),
+          ...readRefNames(repository[`q${index}`]),
+        ]);
+      } catch {
+        return null;
+      }
+    },
+  };
+}
+
+function readRefNames(value: unknown): string[] {
+  const nodes = isRecord(value) ? value.nodes : null;
+  if (!Array.isArray(nodes)) {
+    return [];
+  }
+  return nodes
+    .map((node) => (isRecord(node) ? node.name : null))
+    .filter((name): name is string => typeof name === "string");
+}
+
+function readPath(value: unknown, keys: readonly string[]): unknown {
+  let current = value;
+  for (const key of keys) {
+    if (!isRecord(current)) {
+      return null;
+    }
+    current = current[key];
+  }
+  return current;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
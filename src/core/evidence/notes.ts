@@ -0,0 +1,325 @@
+import { gt, lte, valid } from "semver";
+
+import type { HttpClient } from "../../infra/http/client";
+import type { ForgeReleases } from "./forge";
+import { isTagForPackage, readTagPackage } from "./tags";
+
+export type NextUpdatesReleaseNoteSection = {
+  version: string;
+  body: string;
+};
+
+export type NextUpdatesReleaseNotes = {
+  source: "releases" | "changelog";
+  url: string;
+  sections: NextUpdatesReleaseNoteSection[];
+  truncated: boolean;
+};
+
+export type CollectedReleaseNotes = {
+  // Excerpt embedded in the report.
+  notes: NextUpdatesReleaseNotes;
+  // Every section in the version window, before truncation.
+  sections: NextUpdatesReleaseNoteSection[];
+};
+
+// A release as listed by the forge API.
+export type NextUpdatesRelease = {
+  tagName: string;
+  name: string;
+  publishedAt: string | null;
+  url: string | null;
+  body: string;
+};
+
+export type ReleaseListCache = Map<
+  string,
+  Promise<NextUpdatesRelease[] | null>
+>;
+
+type VersionedSection = NextUpdatesReleaseNoteSection & {
+  level: number;
+};
+
+const maxSectionLength = 1500;
+const maxNotesLength = 6000;
+const maxSections = 12;
+const headingRegex = /^(#{1,6})\s+(.*)$/;
+const versionInTextRegex =
+  /\bv?(\d+\.\d+\.\d+(?:-[0-9A-Za-z.-]+)?(?:\+[0-9A-Za-z.-]+)?)\b/;
+const lineBreakRegex = /\r?\n/;
+
+export async function collectReleaseNotes(options: {
+  http: HttpClient;
+  packageName: string;
+  // Published from a monorepo subdirectory (`repository.directory`).
+  packageScoped: boolean;
+  releases: { pageUrl: string; list: NextUpdatesRelease[] | null } | null;
+  changelogUrl: string | null;
+  installedVersion: string;
+  targetVersion: string;
+}): Promise<CollectedReleaseNotes | null> {
+  const from = valid(options.installedVersion);
+  const to = valid(options.targetVersion);
+  if (!(from && to)) {
+    return null;
+  }
+
+  if (options.releases) {
+    const sections = selectReleaseSections(
+      filterPackageReleases(
+        options.releases.list ?? [],
+        options.packageName,
+        options.packageScoped
+      ),
+      from,
+      to
+    );
+    if (sections.length > 0) {
+      return {
+        notes: truncateNotes("releases", options.releases.pageUrl, sections),
+        sections,
+      };
+    }
+  }
+
+  if (options.changelogUrl) {
+    const markdown = await fetchText(options.http, options.changelogUrl);
+    const sections = markdown ? sliceChangelogSections(markdown, from, to) : [];
+    if (sections.length > 0) {
+      return {
+        notes: truncateNotes("changelog", options.changelogUrl, sections),
+        sections,
+      };
+    }
+  }
+
+  return null;
+}
+
+// Splits a changelog on headings that carry a version and keeps the
+// sections in (fromVersion, toVersion], newest first as written.
+export function sliceChangelogSections(
+  markdown: string,
+  fromVersion: string,
+  toVersion: string
+): NextUpdatesReleaseNoteSection[] {
+  const sections: VersionedSection[] = [];
+  let current: VersionedSection | null = null;
+  let bodyLines: string[] = [];
+
+  const flush = () => {
+    if (current) {
+      sections.push({ ...current, body: bodyLines.join("\n").trim() });
+    }
+  };
+
+  for (const line of markdown.split(lineBreakRegex)) {
+    const heading = headingRegex.exec(line);
+    const level = heading ? heading[1].length : 0;
+    const version = heading ? extractVersion(heading[2]) : null;
+    const endsSection = heading && current && level <= current.level;
+    if (version || endsSection) {
+      flush();
+      current = version ? { version, body: "", level } : null;
+      bodyLines = [];
+      continue;
+    }
+    if (current) {
+      bodyLines.push(line);
+    }
+  }
+  flush();
+
+  return sections
+    .filter((section) =>
+      isInVersionWindow(section.version, fromVersion, toVersion)
+    )
+    .map(({ version, body }) => ({ version, body }));
+}
+
+// Releases of this package in (installedVersion, targetVersion], newest
+// first, with bodies capped like release note sections.
+export function selectReleases(
+  releases: readonly NextUpdatesRelease[],
+  options: {
+    packageName: string;
+    packageScoped: boolean;
+    installedVersion: string;
+    targetVersion: string;
+  }
+): NextUpdatesRelease[] {
+  const from = valid(options.installedVersion);
+  const to = valid(options.targetVersion);
+  if (!(from && to)) {
+    return [];
+  }
+  return filterPackageReleases(
+    releases,
+    options.packageName,
+    options.packageScoped
+  )
+    .filter((release) => {
+      const version = extractVersion(release.tagName);
+      return version !== null && isInVersionWindow(version, from, to);
+    })
+    .map((release) => ({
+      ...release,
+      body:
+        release.body.length > maxSectionLength
+          ? `${release.body.slice(0, maxSectionLength).trimEnd()}…`
+          : release.body,
+    }));
+}
+
+export function getForgeReleases(
+  http: HttpClient,
+  releases: ForgeReleases,
+  cache: ReleaseListCache,
+  headers: Record<string, string> = {}
+): Promise<NextUpdatesRelease[] | null> {
+  const cached = cache.get(releases.apiUrl);
+  if (cached) {
+    return cached;
+  }
+  const fetchPromise = fetchForgeReleases(http, releases.apiUrl, headers);
+  cache.set(releases.apiUrl, fetchPromise);
+  return fetchPromise;
+}
+
+// GitHub and Gitea return `body`, `published_at` and `html_url`; GitLab
+// returns `description`, `released_at` and `_links.self`.
+async function fetchForgeReleases(
+  http: HttpClient,
+  apiUrl: string,
+  headers: Record<string, string>
+): Promise<NextUpdatesRelease[] | null> {
+  try {
+    const response = await http.request(apiUrl, {
+      headers: { Accept: "application/json", ...headers },
+    });
+    if (!response.ok) {
+      return null;
+    }
+    const data: unknown = await response.json();
+    if (!Array.isArray(data)) {
+      return null;
+    }
+    return data.filter(isRecord).map((release) => ({
+      tagName: readString(release.tag_name) ?? "",
+      name: readString(release.name) ?? "",
+      publishedAt:
+        readString(release.published_at) ?? readString(release.released_at),
+      url:
+        readString(release.html_url) ??
+        (isRecord(release._links) ? readString(release._links.self) : null),
+      body: readString(release.body) ?? readString(release.description) ?? "",
+    }));
+  } catch {
+    return null;
+  }
+}
+
+function readString(value: unknown): string | null {
+  return typeof value === "string" ? value : null;
+}
+
+// Drops releases tagged for other packages ("other@1.2.3", "other-v1.2.3").
+// Packages published from a subdirectory keep only their own tags, falling
+// back to repo-wide ones for monorepos that release in lockstep.
+function filterPackageReleases(
+  releases: readonly NextUpdatesRelease[],
+  packageName: string,
+  packageScoped: boolean
+): NextUpdatesRelease[] {
+  const own = releases.filter((release) =>
+    isTagForPackage(release.tagName, packageName)
+  );
+  const repoWide = releases.filter(
+    (release) => readTagPackage(release.tagName) === null
+  );
+  if (packageScoped) {
+    return own.length > 0 ? own : repoWide;
+  }
+  return releases.filter(
+    (release) => own.includes(release) || repoWide.includes(release)
+  );
+}
+
+function selectReleaseSections(
+  releases: readonly NextUpdatesRelease[],
+  fromVersion: string,
+  toVersion: string
+): NextUpdatesReleaseNoteSection[] {
+  const sections: NextUpdatesReleaseNoteSection[] = [];
+  for (const release of releases) {
+    const version = extractVersion(release.tagName);
+    if (!(version && isInVersionWindow(version, fromVersion, toVersion))) {
+      continue;
+    }
+    sections.push({ version, body: release.body.trim() });
+  }
+  return sections;
+}
+
+function truncateNotes(
+  source: NextUpdatesReleaseNotes["source"],
+  url: string,
+  sections: readonly NextUpdatesReleaseNoteSection[]
+): NextUpdatesReleaseNotes {
+  let truncated = sections.length > maxSections;
+  let remaining = maxNotesLength;
+  const kept: NextUpdatesReleaseNoteSection[] = [];
+
+  for (const section of sections.slice(0, maxSections)) {
+    if (remaining <= 0) {
+      truncated = true;
+      break;
+    }
+    const limit = Math.min(maxSectionLength, remaining);
+    const body =
+      section.body.length > limit
+        ? `${section.body.slice(0, limit).trimEnd()}…`
+        : section.body;
+    truncated ||= body !== section.body;
+    remaining -= body.length;
+    kept.push({ version: section.version, body });
+  }
+
+  return { source, url, sections: kept, truncated };
+}
+
+function isInVersionWindow(
+  version: string,
+  fromVersion: string,
+  toVersion: string
+): boolean {
+  return gt(version, fromVersion) && lte(version, toVersion);
+}
+
+function extractVersion(text: string): string | null {
+  const match = versionInTextRegex.exec(text);
+  if (!match) {
+    return null;
+  }
+  return valid(match[1]);
+}
+
+async function fetchText(
+  http: HttpClient,
+  url: string
+): Promise<string | null> {
+  try {
+    const response = await http.request(url);
+    if (!response.ok) {
+      return null;
+    }
+    return await response.text();
+  } catch {
+    return null;
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
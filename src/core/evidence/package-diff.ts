@@ -0,0 +1,197 @@
+import { createHash } from "node:crypto";
+
+import { readTarballFiles } from "../../infra/archive/tar";
+import type { TarballClient } from "../registry/tarballs";
+import type { NpmRegistryPackage } from "../registry/types";
+
+export type NextUpdatesPackageJsonChange = {
+  field: (typeof packageJsonFields)[number];
+  // null when the field is absent.
+  from: unknown;
+  to: unknown;
+};
+
+// Paths stop at maxListedFiles; count is the full number.
+export type NextUpdatesPackageDiffFiles = {
+  count: number;
+  paths: string[];
+};
+
+export type NextUpdatesPackageDiff = {
+  files: {
+    added: NextUpdatesPackageDiffFiles;
+    removed: NextUpdatesPackageDiffFiles;
+    changed: NextUpdatesPackageDiffFiles;
+    unchanged: number;
+  };
+  packageJson: NextUpdatesPackageJsonChange[];
+  unpackedSize: {
+    from: number;
+    to: number;
+    delta: number;
+  };
+};
+
+// What a diff needs from one tarball: a digest and size per file, plus the
+// parsed package.json. Buffers are dropped once hashed, so the run-wide cache
+// stays small however many packages are diffed.
+export type PackageFileDigests = {
+  files: Map<string, { hash: string; size: number }>;
+  manifest: Record<string, unknown>;
+};
+
+export type TarballCache = Map<string, Promise<PackageFileDigests | null>>;
+
+const packageJsonFields = [
+  "main",
+  "exports",
+  "type",
+  "bin",
+  "engines",
+] as const;
+const maxListedFiles = 100;
+
+// Downloads both tarballs (through the HTTP cache) and compares their files.
+export async function collectPackageDiff(options: {
+  tarballs: TarballClient;
+  registry: NpmRegistryPackage;
+  packageName: string;
+  installedVersion: string;
+  targetVersion: string;
+  cache: TarballCache;
+}): Promise<NextUpdatesPackageDiff | null> {
+  const [from, to] = await Promise.all(
+    [options.installedVersion, options.targetVersion].map((version) =>
+      getTarballFiles(options, version)
+    )
+  );
+  return from && to ? diffPackageFiles(from, to) : null;
+}
+
+export function diffPackageFiles(
+  from: PackageFileDigests,
+  to: PackageFileDigests
+): NextUpdatesPackageDiff {
+  const added: string[] = [];
+  const removed: string[] = [];
+  const changed: string[] = [];
+  let unchanged = 0;
+  for (const [filePath, file] of to.files) {
+    const previous = from.files.get(filePath);
+    if (!previous) {
+      added.push(filePath);
+    } else if (previous.hash === file.hash) {
+      unchanged += 1;
+    } else {
+      changed.push(filePath);
+    }
+  }
+  for (const filePath of from.files.keys()) {
+    if (!to.files.has(filePath)) {
+      removed.push(filePath);
+    }
+  }
+
+  const fromSize = sumSizes(from);
+  const toSize = sumSizes(to);
+  return {
+    files: {
+      added: listFiles(added),
+      removed: listFiles(removed),
+      changed: listFiles(changed),
+      unchanged,
+    },
+    packageJson: diffPackageJson(from.manifest, to.manifest),
+    unpackedSize: { from: fromSize, to: toSize, delta: toSize - fromSize },
+  };
+}
+
+function listFiles(paths: string[]): NextUpdatesPackageDiffFiles {
+  return {
+    count: paths.length,
+    paths: paths.sort().slice(0, maxListedFiles),
+  };
+}
+
+function getTarballFiles(
+  options: {
+    tarballs: TarballClient;
+    registry: NpmRegistryPackage;
+    packageName: string;
+    cache: TarballCache;
+  },
+  version: string
+): Promise<PackageFileDigests | null> {
+  const url = options.registry.versions?.[version]?.dist?.tarball;
+  if (!url) {
+    return Promise.resolve(null);
+  }
+  const cached = options.cache.get(url);
+  if (cached) {
+    return cached;
+  }
+  const filesPromise = options.tarballs
+    .getTarball(options.packageName, version, url)
+    .then((tarball) => (tarball ? digestPackageFiles(tarball) : null));
+  options.cache.set(url, filesPromise);
+  return filesPromise;
+}
+
+// npm packs everything under one top-level directory, usually "package/".
+function digestPackageFiles(tarball: Uint8Array): PackageFileDigests | null {
+  const entries = readTarballFiles(tarball);
+  if (!entries) {
+    return null;
+  }
+  const files = new Map<string, { hash: string; size: number }>();
+  let manifest: Record<string, unknown> = {};
+  for (const [entryPath, content] of entries) {
+    const slashIndex = entryPath.indexOf("/");
+    const filePath =
+      slashIndex === -1 ? entryPath : entryPath.slice(slashIndex + 1);
+    files.set(filePath, {
+      hash: createHash("sha1").update(content).digest("hex"),
+      size: content.length,
+    });
+    if (filePath === "package.json") {
+      manifest = readManifest(content);
+    }
+  }
+  return { files, manifest };
+}
+
+function diffPackageJson(
+  from: Record<string, unknown>,
+  to: Record<string, unknown>
+): NextUpdatesPackageJsonChange[] {
+  const changes: NextUpdatesPackageJsonChange[] = [];
+  for (const field of packageJsonFields) {
+    const before = from[field] ?? null;
+    const after = to[field] ?? null;
+    if (JSON.stringify(before) !== JSON.stringify(after)) {
+      changes.push({ field, from: before, to: after });
+    }
+  }
+  return changes;
+}
+
+function readManifest(content: Buffer): Record<string, unknown> {
+  try {
+    const parsed: unknown = JSON.parse(content.toString("utf8"));
+    return isRecord(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+function sumSizes(digests: PackageFileDigests): number {
+  let total = 0;
+  for (const file of digests.files.values()) {
+    total += file.size;
+  }
+  return total;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,96 @@
+import { satisfies, valid } from "semver";
+
+import type { AdvisoryClient, NpmAdvisory } from "../registry/advisories";
+
+export type NextUpdatesAdvisory = {
+  id: string;
+  title: string;
+  severity: string;
+  url: string | null;
+  vulnerableVersions: string;
+  fixedByTarget: boolean | null;
+};
+
+export type NextUpdatesSecurity = {
+  advisories: NextUpdatesAdvisory[];
+};
+
+export type SecurityLookupInput = {
+  packageName: string;
+  installedVersion: string | null;
+  targetVersion: string | null;
+};
+
+const severityOrder = ["critical", "high", "moderate", "low", "info"];
+
+// One bulk lookup for every installed version; each input gets the
+// advisories affecting its installed version (null when the lookup failed or
+// the installed version is unknown).
+export async function collectSecurityAdvisories(
+  inputs: readonly SecurityLookupInput[],
+  client: AdvisoryClient
+): Promise<(NextUpdatesSecurity | null)[]> {
+  const versions: Record<string, string[]> = {};
+  for (const input of inputs) {
+    const installed = input.installedVersion && valid(input.installedVersion);
+    if (!installed) {
+      continue;
+    }
+    const list = versions[input.packageName] ?? [];
+    if (!list.includes(installed)) {
+      list.push(installed);
+    }
+    versions[input.packageName] = list;
+  }
+
+  const advisories = await client.getAdvisories(versions);
+  return inputs.map((input) => {
+    const installed = input.installedVersion && valid(input.installedVersion);
+    if (!(advisories && installed)) {
+      return null;
+    }
+    return buildSecurity(
+      advisories[input.packageName] ?? [],
+      installed,
+      input.targetVersion
+    );
+  });
+}
+
+function compareSeverity(a: string, b: string): number {
+  return severityRank(a) - severityRank(b);
+}
+
+function buildSecurity(
+  advisories: readonly NpmAdvisory[],
+  installedVersion: string,
+  targetVersion: string | null
+): NextUpdatesSecurity {
+  const target = targetVersion ? valid(targetVersion) : null;
+  const affecting = advisories
+    .filter((advisory) =>
+      satisfiesRange(installedVersion, advisory.vulnerableVersions)
+    )
+    .map((advisory) => ({
+      ...advisory,
+      fixedByTarget: target
+        ? !satisfiesRange(target, advisory.vulnerableVersions)
+        : null,
+    }))
+    .sort((a, b) => compareSeverity(a.severity, b.severity));
+
+  return { advisories: affecting };
+}
+
+function satisfiesRange(version: string, range: string): boolean {
+  try {
+    return satisfies(version, range, { includePrerelease: true });
+  } catch {
+    return false;
+  }
+}
+
+function severityRank(severity: string): number {
+  const index = severityOrder.indexOf(severity.toLowerCase());
+  return index === -1 ? severityOrder.length : index;
+}
@@ -0,0 +1,78 @@
+// Git tag conventions for npm releases: repo-wide `v1.2.3` / `1.2.3`, and
+// per-package `@scope/pkg@1.2.3`, `pkg@1.2.3` or `pkg-v1.2.3` in monorepos.
+
+const packageTagRegex =
+  /^(.+?)(?:@v?|-v)(\d+\.\d+\.\d+(?:[-+][0-9A-Za-z.+-]+)?)$/;
+const tagVersionRegex = /(\d+\.\d+\.\d+(?:[-+][0-9A-Za-z.+-]+)?)$/;
+
+// Candidate tags for one version, most likely first. Packages published from
+// a subdirectory try their own tags before repo-wide ones.
+export function buildTagNames(
+  packageName: string,
+  version: string,
+  packageFirst: boolean
+): string[] {
+  const unscoped = getUnscopedPackageName(packageName);
+  const generic = [`v${version}`, version];
+  const scoped = [
+    `${packageName}@${version}`,
+    `${unscoped}@${version}`,
+    `${unscoped}-v${version}`,
+  ];
+  const names = packageFirst
+    ? [...scoped, ...generic]
+    : [...generic, ...scoped];
+  return [...new Set(names)];
+}
+
+// Picks the tag for `version` out of tags that exist in the repository:
+// a conventional name when present, otherwise any tag ending in exactly that
+// version that is not another package's.
+export function pickExactTag(
+  tagNames: readonly string[],
+  packageName: string,
+  version: string,
+  packageFirst: boolean
+): string | null {
+  const available = new Set(tagNames);
+  const conventional = buildTagNames(packageName, version, packageFirst).find(
+    (name) => available.has(name)
+  );
+  if (conventional) {
+    return conventional;
+  }
+  const matching = tagNames.filter(
+    (name) =>
+      tagVersionRegex.exec(name)?.[1] === version &&
+      (readTagPackage(name) === null || isTagForPackage(name, packageName))
+  );
+  return (
+    matching.find((name) => isTagForPackage(name, packageName)) ??
+    matching[0] ??
+    null
+  );
+}
+
+// The package a tag belongs to, or null for repo-wide tags.
+export function readTagPackage(tagName: string): string | null {
+  return packageTagRegex.exec(tagName)?.[1] ?? null;
+}
+
+export function isTagForPackage(tagName: string, packageName: string): boolean {
+  const tagPackage = readTagPackage(tagName);
+  return (
+    tagPackage === packageName ||
+    tagPackage === getUnscopedPackageName(packageName)
+  );
+}
+
+export function getUnscopedPackageName(packageName: string): string {
+  if (!packageName.startsWith("@")) {
+    return packageName;
+  }
+  const slashIndex = packageName.indexOf("/");
+  if (slashIndex === -1) {
+    return packageName;
+  }
+  return packageName.slice(slashIndex + 1);
+}
@@ -1,9 +1,21 @@
 import fs from "node:fs/promises";
 
-import type { InstalledVersionLookup } from "./types";
+import type {
+  InstalledVersionLookup,
+  LockfileGraph,
+  LockfileGraphNode,
+} from "./types";
 import { normalizeInstalledVersion } from "./utils";
 
+type BunDependencySections = {
+  name?: string;
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+  optionalDependencies?: Record<string, string>;
+};
+
 type BunLockfile = {
+  workspaces?: Record<string, BunDependencySections>;
   packages?: Record<string, unknown>;
 };
 
@@ -33,6 +45,83 @@ export async function createBunInstalledVersionLookup(
   }
 }
 
+// Package keys are the dependency name, prefixed with the dependent's key
+// ("parent/child") when a nested copy differs from the hoisted one.
+export async function createBunLockfileGraph(
+  lockfilePath: string
+): Promise<LockfileGraph | null> {
+  try {
+    const parsed = parseBunLockfile(await fs.readFile(lockfilePath, "utf8"));
+    if (!(parsed && isRecord(parsed.packages))) {
+      return null;
+    }
+    const packages = parsed.packages as Record<string, unknown>;
+    const nodes = new Map<string, LockfileGraphNode>();
+    for (const [key, entry] of Object.entries(packages)) {
+      const node = readBunGraphNode(packages, key, entry);
+      if (node) {
+        nodes.set(key, node);
+      }
+    }
+
+    const importers = new Map<string, Record<string, string>>();
+    for (const [dir, workspace] of Object.entries(parsed.workspaces ?? {})) {
+      importers.set(
+        dir === "" ? "package.json" : `${dir}/package.json`,
+        resolveBunDependencies(packages, workspace.name ?? "", [
+          workspace.dependencies,
+          workspace.devDependencies,
+          workspace.optionalDependencies,
+        ])
+      );
+    }
+    return { nodes, importers };
+  } catch {
+    return null;
+  }
+}
+
+function readBunGraphNode(
+  packages: Record<string, unknown>,
+  key: string,
+  entry: unknown
+): LockfileGraphNode | null {
+  if (!Array.isArray(entry) || typeof entry[0] !== "string") {
+    return null;
+  }
+  const version = extractBunVersion(entry[0]);
+  if (version === null || entry[0].includes("@workspace:")) {
+    return null;
+  }
+  const meta = isRecord(entry[2]) ? (entry[2] as BunDependencySections) : {};
+  return {
+    name: entry[0].slice(0, entry[0].lastIndexOf("@")),
+    version,
+    dependencies: resolveBunDependencies(packages, key, [
+      meta.dependencies,
+      meta.optionalDependencies,
+    ]),
+  };
+}
+
+function resolveBunDependencies(
+  packages: Record<string, unknown>,
+  fromKey: string,
+  sections: Array<Record<string, string> | undefined>
+): Record<string, string> {
+  const resolved: Record<string, string> = {};
+  for (const section of sections) {
+    for (const name of Object.keys(section ?? {})) {
+      const nested = `${fromKey}/${name}`;
+      const key = fromKey !== "" && nested in packages ? nested : name;
+      if (key in packages) {
+        resolved[name] = key;
+      }
+    }
+  }
+  return resolved;
+}
+
 function parseBunLockfile(raw: string): BunLockfile | null {
   try {
     const cleaned = raw.replace(bunTrailingCommaRegex, "$1");
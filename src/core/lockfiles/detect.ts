@@ -1,13 +1,30 @@
 import fs from "node:fs/promises";
 import path from "node:path";
 
-import { createBunInstalledVersionLookup } from "./bun";
-import { createNpmInstalledVersionLookup } from "./npm";
-import { createPnpmInstalledVersionLookup } from "./pnpm";
-import type { InstalledVersionLookup as InstalledVersionLookupType } from "./types";
-import { createYarnInstalledVersionLookup } from "./yarn";
+import { readRootPackageJson } from "../../infra/fs/workspaces";
+import { createBunInstalledVersionLookup, createBunLockfileGraph } from "./bun";
+import { createNpmInstalledVersionLookup, createNpmLockfileGraph } from "./npm";
+import {
+  createPnpmInstalledVersionLookup,
+  createPnpmLockfileGraph,
+} from "./pnpm";
+import type {
+  InstalledVersionLookup as InstalledVersionLookupType,
+  LockfileGraph,
+} from "./types";
+import {
+  createYarnInstalledVersionLookup,
+  createYarnLockfileGraph,
+} from "./yarn";
 
-type LockfileType = "pnpm" | "npm" | "yarn" | "bun";
+export type LockfileType = "pnpm" | "npm" | "yarn" | "bun";
+
+const packageManagerNames: readonly LockfileType[] = [
+  "pnpm",
+  "npm",
+  "yarn",
+  "bun",
+];
 
 export async function createInstalledVersionLookup(
   cwd: string
@@ -28,7 +45,24 @@ export async function createInstalledVersionLookup(
   return () => null;
 }
 
-async function findLockfile(
+const lockfileGraphReaders: Record<
+  LockfileType,
+  (lockfilePath: string) => Promise<LockfileGraph | null>
+> = {
+  pnpm: createPnpmLockfileGraph,
+  npm: createNpmLockfileGraph,
+  yarn: createYarnLockfileGraph,
+  bun: createBunLockfileGraph,
+};
+
+export async function createLockfileGraph(
+  cwd: string
+): Promise<LockfileGraph | null> {
+  const lockfile = await findLockfile(cwd);
+  return lockfile ? lockfileGraphReaders[lockfile.type](lockfile.path) : null;
+}
+
+export async function findLockfile(
   cwd: string
 ): Promise<{ type: LockfileType; path: string } | null> {
   const candidates: { type: LockfileType; path: string }[] = [
@@ -50,4 +84,28 @@ async function findLockfile(
   return null;
 }
 
-export type { InstalledVersionLookup } from "./types";
+// The `packageManager` field wins; otherwise the lockfile decides.
+export async function detectPackageManager(
+  cwd: string
+): Promise<LockfileType | undefined> {
+  const pkg = await readRootPackageJson(cwd);
+  const declared = packageManagerNames.find((name) =>
+    pkg?.packageManager?.startsWith(name)
+  );
+  if (declared) {
+    return declared;
+  }
+  const lockfile = await findLockfile(cwd);
+  if (lockfile) {
+    return lockfile.type;
+  }
+  try {
+    // Legacy binary bun lockfile: enough to name the manager, not to read.
+    await fs.access(path.resolve(cwd, "bun.lockb"));
+    return "bun";
+  } catch {
+    return;
+  }
+}
+
+export type { InstalledVersionLookup, LockfileGraph } from "./types";
@@ -1,14 +1,28 @@
 import fs from "node:fs/promises";
 import path from "node:path";
 
-import type { InstalledVersionLookup } from "./types";
+import type {
+  InstalledVersionLookup,
+  LockfileGraph,
+  LockfileGraphNode,
+} from "./types";
 import { normalizeInstalledVersion } from "./utils";
 
+type PackageLockEntry = {
+  version?: string;
+  link?: boolean;
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+  optionalDependencies?: Record<string, string>;
+};
+
 type PackageLock = {
-  packages?: Record<string, { version?: string }>;
+  packages?: Record<string, PackageLockEntry>;
   dependencies?: Record<string, { version?: string }>;
 };
 
+const nodeModulesSegment = "node_modules/";
+
 export async function createNpmInstalledVersionLookup(
   lockfilePath: string
 ): Promise<InstalledVersionLookup> {
@@ -50,6 +64,92 @@ export async function createNpmInstalledVersionLookup(
   }
 }
 
+// Walks lockfile v2/v3 `packages`, whose keys are install paths; a dependency
+// resolves like Node does, from the nearest enclosing node_modules.
+export async function createNpmLockfileGraph(
+  lockfilePath: string
+): Promise<LockfileGraph | null> {
+  try {
+    const parsed: unknown = JSON.parse(await fs.readFile(lockfilePath, "utf8"));
+    if (!(isRecord(parsed) && isRecord(parsed.packages))) {
+      return null;
+    }
+    const packages = (parsed as PackageLock).packages ?? {};
+    const nodes = new Map<string, LockfileGraphNode>();
+    const importers = new Map<string, Record<string, string>>();
+    for (const [key, entry] of Object.entries(packages)) {
+      if (entry.link) {
+        continue;
+      }
+      const dependencies = resolveNpmDependencies(packages, key, [
+        entry.dependencies,
+        entry.optionalDependencies,
+      ]);
+      if (!key.includes(nodeModulesSegment)) {
+        importers.set(
+          key === "" ? "package.json" : `${key}/package.json`,
+          resolveNpmDependencies(packages, key, [
+            entry.dependencies,
+            entry.devDependencies,
+            entry.optionalDependencies,
+          ])
+        );
+        continue;
+      }
+      if (typeof entry.version === "string") {
+        nodes.set(key, {
+          name: key.slice(
+            key.lastIndexOf(nodeModulesSegment) + nodeModulesSegment.length
+          ),
+          version: normalizeInstalledVersion(entry.version),
+          dependencies,
+        });
+      }
+    }
+    return { nodes, importers };
+  } catch {
+    return null;
+  }
+}
+
+function resolveNpmDependencies(
+  packages: Record<string, PackageLockEntry>,
+  fromKey: string,
+  sections: Array<Record<string, string> | undefined>
+): Record<string, string> {
+  const resolved: Record<string, string> = {};
+  for (const section of sections) {
+    for (const name of Object.keys(section ?? {})) {
+      const key = resolveNpmPackageKey(packages, fromKey, name);
+      if (key !== null) {
+        resolved[name] = key;
+      }
+    }
+  }
+  return resolved;
+}
+
+function resolveNpmPackageKey(
+  packages: Record<string, PackageLockEntry>,
+  fromKey: string,
+  name: string
+): string | null {
+  let base = fromKey;
+  for (;;) {
+    const key =
+      base === "" ? `node_modules/${name}` : `${base}/node_modules/${name}`;
+    const entry = packages[key];
+    if (entry && !entry.link) {
+      return key;
+    }
+    if (base === "") {
+      return null;
+    }
+    const parent = base.lastIndexOf(`/${nodeModulesSegment}`);
+    base = parent === -1 ? "" : base.slice(0, parent);
+  }
+}
+
 function isRecord(value: unknown): value is Record<string, unknown> {
   return typeof value === "object" && value !== null;
 }
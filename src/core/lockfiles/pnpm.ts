@@ -3,7 +3,11 @@ import path from "node:path";
 
 import { parse as parseYaml } from "yaml";
 
-import type { InstalledVersionLookup } from "./types";
+import type {
+  InstalledVersionLookup,
+  LockfileGraph,
+  LockfileGraphNode,
+} from "./types";
 import { normalizeInstalledVersion } from "./utils";
 
 type PnpmDependencyEntry = { version?: string } | string;
@@ -15,10 +19,25 @@ type PnpmImporter = {
   peerDependencies?: Record<string, PnpmDependencyEntry>;
 };
 
+type PnpmSnapshot = {
+  dependencies?: Record<string, string>;
+  optionalDependencies?: Record<string, string>;
+};
+
 type PnpmLockfile = {
   importers?: Record<string, PnpmImporter>;
+  // Lockfile v6 keeps dependencies on `packages` ("/name@1.0.0"); v9 moved
+  // them to `snapshots` ("name@1.0.0(peer@2.0.0)").
+  packages?: Record<string, PnpmSnapshot>;
+  snapshots?: Record<string, PnpmSnapshot>;
 };
 
+const importerDependencyFields = [
+  "dependencies",
+  "devDependencies",
+  "optionalDependencies",
+] as const;
+
 export async function createPnpmInstalledVersionLookup(
   lockfilePath: string
 ): Promise<InstalledVersionLookup> {
@@ -48,6 +67,101 @@ export async function createPnpmInstalledVersionLookup(
   }
 }
 
+export async function createPnpmLockfileGraph(
+  lockfilePath: string
+): Promise<LockfileGraph | null> {
+  try {
+    const parsed: unknown = parseYaml(await fs.readFile(lockfilePath, "utf8"));
+    if (!(isRecord(parsed) && isRecord(parsed.importers))) {
+      return null;
+    }
+    const lockfile = parsed as PnpmLockfile;
+    const snapshots = { ...lockfile.packages, ...lockfile.snapshots };
+    const nodes = new Map<string, LockfileGraphNode>();
+    const importers = new Map<string, Record<string, string>>();
+    for (const [key, importer] of Object.entries(lockfile.importers ?? {})) {
+      const direct = readPnpmImporterNodeIds(importer);
+      for (const id of Object.values(direct)) {
+        addPnpmNodes(nodes, snapshots, id);
+      }
+      importers.set(
+        key === "." ? "package.json" : `${key}/package.json`,
+        direct
+      );
+    }
+    return { nodes, importers };
+  } catch {
+    return null;
+  }
+}
+
+function readPnpmImporterNodeIds(
+  importer: PnpmImporter
+): Record<string, string> {
+  const direct: Record<string, string> = {};
+  for (const field of importerDependencyFields) {
+    for (const [name, entry] of Object.entries(importer[field] ?? {})) {
+      const id = toPnpmNodeId(
+        name,
+        typeof entry === "string" ? entry : entry.version
+      );
+      if (id) {
+        direct[name] = id;
+      }
+    }
+  }
+  return direct;
+}
+
+function addPnpmNodes(
+  nodes: Map<string, LockfileGraphNode>,
+  snapshots: Record<string, PnpmSnapshot>,
+  rootId: string
+): void {
+  const stack = [rootId];
+  for (let id = stack.pop(); id !== undefined; id = stack.pop()) {
+    if (nodes.has(id)) {
+      continue;
+    }
+    const snapshot = snapshots[id] ?? snapshots[`/${id}`];
+    const dependencies: Record<string, string> = {};
+    for (const [name, version] of Object.entries({
+      ...snapshot?.dependencies,
+      ...snapshot?.optionalDependencies,
+    })) {
+      const childId = toPnpmNodeId(name, version);
+      if (childId) {
+        dependencies[name] = childId;
+        stack.push(childId);
+      }
+    }
+    const base = normalizeInstalledVersion(id);
+    const at = base.lastIndexOf("@");
+    nodes.set(id, {
+      name: base.slice(0, at),
+      version: base.slice(at + 1),
+      dependencies,
+    });
+  }
+}
+
+// Workspace links have no node; aliases already carry the full
+// `name@version` id.
+function toPnpmNodeId(
+  name: string,
+  version: string | undefined
+): string | null {
+  if (!version || version.startsWith("link:") || version.startsWith("file:")) {
+    return null;
+  }
+  if (version.startsWith("/")) {
+    return version.slice(1);
+  }
+  return normalizeInstalledVersion(version).includes("@")
+    ? version
+    : `${name}@${version}`;
+}
+
 function packageFileToImporterKey(packageFile: string): string {
   if (packageFile === "package.json") {
     return ".";
@@ -3,3 +3,18 @@ export type InstalledVersionLookup = (
   packageName: string,
   currentRange: string
 ) => string | null;
+
+export type LockfileGraphNode = {
+  name: string;
+  version: string;
+  // Dependency name → id of the node it resolves to.
+  dependencies: Record<string, string>;
+};
+
+// Node ids are format specific (install path for npm, `name@version` for
+// pnpm and Yarn, package key for Bun); importers map a package file
+// ("package.json", "packages/app/package.json") to its direct dependencies.
+export type LockfileGraph = {
+  nodes: Map<string, LockfileGraphNode>;
+  importers: Map<string, Record<string, string>>;
+};
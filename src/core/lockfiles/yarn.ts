@@ -1,8 +1,13 @@
 import fs from "node:fs/promises";
+import path from "node:path";
 
 import { parse as parseYaml } from "yaml";
 
-import type { InstalledVersionLookup } from "./types";
+import type {
+  InstalledVersionLookup,
+  LockfileGraph,
+  LockfileGraphNode,
+} from "./types";
 import { normalizeInstalledVersion } from "./utils";
 
 type YarnBerryLockfile = Record<string, unknown>;
@@ -14,6 +19,19 @@ type YarnDescriptorVersion = {
 
 type YarnInstalledIndex = Map<string, YarnDescriptorVersion[]>;
 
+type YarnGraphEntry = {
+  descriptors: string[];
+  version: string;
+  dependencies: Record<string, string>;
+};
+
+const yarnGraphDependencyFields = [
+  "dependencies",
+  "optionalDependencies",
+] as const;
+const yarnClassicDependencyRegex = /^("[^"]+"|\S+)\s+"?([^"]*)"?$/;
+const workspaceProtocol = "@workspace:";
+
 const yarnClassicVersionRegex = /^version\s+["'](.+)["']/;
 const lineBreakRegex = /\r?\n/;
 
@@ -47,6 +65,176 @@ export async function createYarnInstalledVersionLookup(
   }
 }
 
+// Berry lockfiles list workspaces as `name@workspace:<dir>` entries; classic
+// ones do not, so their only importer is the root package.json.
+export async function createYarnLockfileGraph(
+  lockfilePath: string
+): Promise<LockfileGraph | null> {
+  try {
+    const raw = await fs.readFile(lockfilePath, "utf8");
+    const entries = raw.includes("__metadata:")
+      ? readYarnBerryGraphEntries(raw)
+      : readYarnClassicGraphEntries(raw);
+    const ids = new Map<string, string>();
+    for (const entry of entries) {
+      for (const descriptor of entry.descriptors) {
+        ids.set(descriptor, entry.descriptors[0]);
+      }
+    }
+    const resolve = (dependencies: Record<string, string>) =>
+      resolveYarnDependencies(ids, dependencies);
+
+    const nodes = new Map<string, LockfileGraphNode>();
+    const importers = new Map<string, Record<string, string>>();
+    for (const entry of entries) {
+      const id = entry.descriptors[0];
+      const workspaceAt = id.indexOf(workspaceProtocol);
+      if (workspaceAt > 0) {
+        const dir = id.slice(workspaceAt + workspaceProtocol.length);
+        importers.set(
+          dir === "." ? "package.json" : `${dir}/package.json`,
+          resolve(entry.dependencies)
+        );
+        continue;
+      }
+      nodes.set(id, {
+        name: getYarnDescriptorPackageName(id) ?? id,
+        version: entry.version,
+        dependencies: resolve(entry.dependencies),
+      });
+    }
+    if (importers.size === 0) {
+      importers.set(
+        "package.json",
+        resolve(await readRootDependencyRanges(path.dirname(lockfilePath)))
+      );
+    }
+    return { nodes, importers };
+  } catch {
+    return null;
+  }
+}
+
+function resolveYarnDependencies(
+  ids: Map<string, string>,
+  dependencies: Record<string, string>
+): Record<string, string> {
+  const resolved: Record<string, string> = {};
+  for (const [name, range] of Object.entries(dependencies)) {
+    const id =
+      ids.get(`${name}@${range}`) ?? ids.get(`${name}@npm:${range}`) ?? null;
+    if (id !== null && !id.includes(workspaceProtocol)) {
+      resolved[name] = id;
+    }
+  }
+  return resolved;
+}
+
+function readYarnBerryGraphEntries(raw: string): YarnGraphEntry[] {
+  const parsed: unknown = parseYaml(raw);
+  if (!isRecord(parsed)) {
+    return [];
+  }
+  const entries: YarnGraphEntry[] = [];
+  for (const [descriptorList, value] of Object.entries(parsed)) {
+    const version = getYarnEntryVersion(value);
+    if (descriptorList === "__metadata" || !(version && isRecord(value))) {
+      continue;
+    }
+    entries.push({
+      descriptors: splitYarnDescriptorList(descriptorList),
+      version,
+      dependencies: readYarnBerryDependencies(value),
+    });
+  }
+  return entries;
+}
+
+function readYarnBerryDependencies(
+  entry: Record<string, unknown>
+): Record<string, string> {
+  const dependencies: Record<string, string> = {};
+  for (const field of yarnGraphDependencyFields) {
+    const section = toRecordOrNull(entry[field]) ?? {};
+    for (const [name, range] of Object.entries(section)) {
+      if (typeof range === "string") {
+        dependencies[name] = range;
+      }
+    }
+  }
+  return dependencies;
+}
+
+function readYarnClassicGraphEntries(raw: string): YarnGraphEntry[] {
+  const entries: YarnGraphEntry[] = [];
+  let current: YarnGraphEntry | null = null;
+  let inDependencies = false;
+  for (const line of raw.split(lineBreakRegex)) {
+    const trimmed = line.trim();
+    if (trimmed === "" || trimmed.startsWith("#")) {
+      continue;
+    }
+    if (!line.startsWith(" ")) {
+      current = {
+        descriptors: splitYarnKeyLine(line),
+        version: "",
+        dependencies: {},
+      };
+      entries.push(current);
+      inDependencies = false;
+    } else if (current) {
+      inDependencies = readYarnClassicEntryLine(current, line, inDependencies);
+    }
+  }
+  return entries.filter(
+    (entry) => entry.descriptors.length > 0 && entry.version !== ""
+  );
+}
+
+// Returns whether the following lines belong to a dependencies block.
+function readYarnClassicEntryLine(
+  entry: YarnGraphEntry,
+  line: string,
+  inDependencies: boolean
+): boolean {
+  const trimmed = line.trim();
+  if (line.startsWith("    ")) {
+    const dependency = inDependencies
+      ? yarnClassicDependencyRegex.exec(trimmed)
+      : null;
+    if (dependency) {
+      entry.dependencies[stripYarnQuotes(dependency[1])] = dependency[2];
+    }
+    return inDependencies;
+  }
+  const version = yarnClassicVersionRegex.exec(trimmed);
+  if (version) {
+    entry.version = normalizeInstalledVersion(version[1]);
+  }
+  return yarnGraphDependencyFields.some((field) => trimmed === `${field}:`);
+}
+
+async function readRootDependencyRanges(
+  dir: string
+): Promise<Record<string, string>> {
+  try {
+    const parsed: unknown = JSON.parse(
+      await fs.readFile(path.resolve(dir, "package.json"), "utf8")
+    );
+    if (!isRecord(parsed)) {
+      return {};
+    }
+    const manifest = parsed as Record<string, Record<string, string>>;
+    return {
+      ...manifest.optionalDependencies,
+      ...manifest.devDependencies,
+      ...manifest.dependencies,
+    };
+  } catch {
+    return {};
+  }
+}
+
 function createYarnInstalledVersionLookupFromIndex(
   index: YarnInstalledIndex
 ): InstalledVersionLookup {
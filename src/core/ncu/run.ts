@@ -1,34 +1,45 @@
 import type { RunOptions } from "npm-check-updates";
 
+import { createGlobMatcher } from "../../config/glob";
 import type {
   NextUpdatesDep,
+  NextUpdatesPolicyOptions,
   NextUpdatesScope,
   NextUpdatesTarget,
 } from "../../config/options";
+import { createTargetPolicyResolver } from "../candidates/policy";
 
 type FilterResults = NonNullable<RunOptions["filterResults"]>;
 
+// ncu keys its output by name and merges a peer range into a same-named
+// dependency or devDependency, so "all" checks peers in a pass of their own
+// (see ncuPassesForDep).
+const ncuDepValues: Record<NextUpdatesDep, readonly string[]> = {
+  all: ["prod", "dev", "optional"],
+  dependencies: ["prod"],
+  devDependencies: ["dev"],
+  optionalDependencies: ["optional"],
+  peerDependencies: ["peer"],
+};
+
+// The ncu runs behind one --dep value; a name listed both as a peer and in
+// another section yields a candidate from each pass.
+export function ncuPassesForDep(dep: NextUpdatesDep): NextUpdatesDep[] {
+  return dep === "all" ? ["all", "peerDependencies"] : [dep];
+}
+
 export function createRunOptions(
   cwd: string,
   scope: NextUpdatesScope,
   target: NextUpdatesTarget,
   dep: NextUpdatesDep
 ): RunOptions {
-  let depValue: readonly string[];
-  if (dep === "all") {
-    depValue = ["prod", "dev"];
-  } else if (dep === "dependencies") {
-    depValue = ["prod"];
-  } else {
-    depValue = ["dev"];
-  }
-
   const runOptions: RunOptions = {
     cwd,
     silent: true,
     jsonUpgraded: true,
     target,
-    dep: depValue,
+    dep: ncuDepValues[dep],
   };
 
   if (scope === "all") {
@@ -44,6 +55,31 @@ export function createRunOptions(
   return runOptions;
 }
 
+export function applyRunPolicy(
+  runOptions: RunOptions,
+  target: NextUpdatesTarget,
+  policy: NextUpdatesPolicyOptions = {}
+): void {
+  runOptions.target = createTargetOption(target, policy);
+  if (policy.ignore && policy.ignore.length > 0) {
+    const ignored = createGlobMatcher(policy.ignore);
+    runOptions.reject = (packageName: string) => ignored(packageName);
+  }
+}
+
+// Package-name rules go through ncu's per-package target function;
+// contextual rules are resolved by the caller across per-target runs.
+function createTargetOption(
+  target: NextUpdatesTarget,
+  policy: NextUpdatesPolicyOptions
+): NonNullable<RunOptions["target"]> {
+  if (!(policy.targets || policy.policies)) {
+    return target;
+  }
+  const resolver = createTargetPolicyResolver(target, policy);
+  return (packageName: string) => resolver.resolve({ packageName }).target;
+}
+
 export function createTargetVersionCollector(): {
   targetVersions: Map<string, string>;
   filterResults: FilterResults;
@@ -0,0 +1,117 @@
+import fs from "node:fs/promises";
+
+import {
+  createDefaultNpmrcConfig,
+  type NpmrcConfig,
+  resolveNpmRegistryTarget,
+} from "../../infra/fs/npmrc";
+import type { HttpClient } from "../../infra/http/client";
+
+export type NpmAdvisory = {
+  id: string;
+  title: string;
+  severity: string;
+  url: string | null;
+  vulnerableVersions: string;
+};
+
+export type AdvisoryClient = {
+  // Keyed by package name; null when the lookup itself failed.
+  getAdvisories(
+    versions: Record<string, string[]>
+  ): Promise<Record<string, NpmAdvisory[]> | null>;
+};
+
+const bulkAdvisoryPath = "/-/npm/v1/security/advisories/bulk";
+
+export function createRegistryAdvisoryClient(
+  http: HttpClient,
+  npmrc: NpmrcConfig = createDefaultNpmrcConfig()
+): AdvisoryClient {
+  return {
+    async getAdvisories(versions) {
+      if (Object.keys(versions).length === 0) {
+        return {};
+      }
+      // The bulk endpoint lives on the default registry, not scoped ones.
+      const target = resolveNpmRegistryTarget(npmrc, "");
+      try {
+        const response = await http.request(
+          `${target.url}${bulkAdvisoryPath}`,
+          {
+            method: "POST",
+            headers: {
+              Accept: "application/json",
+              "Content-Type": "application/json",
+              ...target.headers,
+            },
+            body: JSON.stringify(versions),
+          }
+        );
+        if (!response.ok) {
+          return null;
+        }
+        return parseAdvisoryResponse(await response.json(), versions);
+      } catch {
+        return null;
+      }
+    },
+  };
+}
+
+// Reads a local JSON file in the same shape as the bulk endpoint response
+// ({ "<name>": [{ id, title, severity, url, vulnerable_versions }] }).
+export function createFileAdvisoryClient(filePath: string): AdvisoryClient {
+  let dataPromise: Promise<unknown> | null = null;
+  return {
+    async getAdvisories(versions) {
+      dataPromise ??= fs
+        .readFile(filePath, "utf8")
+        .then((raw): unknown => JSON.parse(raw));
+      try {
+        return parseAdvisoryResponse(await dataPromise, versions);
+      } catch {
+        return null;
+      }
+    },
+  };
+}
+
+function parseAdvisoryResponse(
+  data: unknown,
+  versions: Record<string, string[]>
+): Record<string, NpmAdvisory[]> | null {
+  if (!isRecord(data)) {
+    return null;
+  }
+  const advisories: Record<string, NpmAdvisory[]> = {};
+  for (const packageName of Object.keys(versions)) {
+    const entries = data[packageName];
+    if (!Array.isArray(entries)) {
+      continue;
+    }
+    advisories[packageName] = entries
+      .filter(isRecord)
+      .map(toAdvisory)
+      .filter((entry): entry is NpmAdvisory => entry !== null);
+  }
+  return advisories;
+}
+
+function toAdvisory(entry: Record<string, unknown>): NpmAdvisory | null {
+  const vulnerableVersions = entry.vulnerable_versions;
+  if (typeof vulnerableVersions !== "string") {
+    return null;
+  }
+  return {
+    id: String(entry.id ?? ""),
+    title: typeof entry.title === "string" ? entry.title : "",
+    severity: typeof entry.severity === "string" ? entry.severity : "unknown",
+    url: typeof entry.url === "string" ? entry.url : null,
+    vulnerableVersions,
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
@@ -0,0 +1,133 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+
+import {
+  createDefaultNpmrcConfig,
+  type NpmrcConfig,
+  resolveNpmRegistryTarget,
+} from "../../infra/fs/npmrc";
+import type { HttpClient } from "../../infra/http/client";
+import type { NpmRegistryPackage, RegistryClient } from "./types";
+
+export function createRegistryClient(
+  http: HttpClient,
+  npmrc: NpmrcConfig = createDefaultNpmrcConfig()
+): RegistryClient {
+  // The cooldown pass and evidence collection both read packuments.
+  const packages = new Map<string, Promise<NpmRegistryPackage | null>>();
+  const distTags = new Map<string, Promise<Record<string, string> | null>>();
+  return {
+    getPackage(packageName) {
+      let pending = packages.get(packageName);
+      if (!pending) {
+        pending = fetchRegistryPackage(http, npmrc, packageName);
+        packages.set(packageName, pending);
+      }
+      return pending;
+    },
+    getDistTags(packageName) {
+      const fetched = packages.get(packageName);
+      if (fetched) {
+        return fetched.then((registry) => registry?.["dist-tags"] ?? null);
+      }
+      let pending = distTags.get(packageName);
+      if (!pending) {
+        pending = fetchDistTags(http, npmrc, packageName);
+        distTags.set(packageName, pending);
+      }
+      return pending;
+    },
+  };
+}
+
+// Reads recorded packuments from <dir>/packuments/<name>.json
+// (scoped packages live under <dir>/packuments/@scope/<name>.json).
+export function createFixtureRegistryClient(dir: string): RegistryClient {
+  const getPackage = async (
+    packageName: string
+  ): Promise<NpmRegistryPackage | null> => {
+    try {
+      const raw = await fs.readFile(
+        path.resolve(dir, "packuments", `${packageName}.json`),
+        "utf8"
+      );
+      return toRegistryPackage(JSON.parse(raw));
+    } catch {
+      return null;
+    }
+  };
+  return {
+    getPackage,
+    async getDistTags(packageName) {
+      return (await getPackage(packageName))?.["dist-tags"] ?? null;
+    },
+  };
+}
+
+async function fetchRegistryPackage(
+  http: HttpClient,
+  npmrc: NpmrcConfig,
+  packageName: string
+): Promise<NpmRegistryPackage | null> {
+  try {
+    const target = resolveNpmRegistryTarget(npmrc, packageName);
+    const response = await http.request(
+      `${target.url}/${escapePackageName(packageName)}`,
+      {
+        headers: {
+          Accept: "application/json",
+          ...target.headers,
+        },
+      }
+    );
+    if (!response.ok) {
+      return null;
+    }
+    return toRegistryPackage(await response.json());
+  } catch {
+    return null;
+  }
+}
+
+async function fetchDistTags(
+  http: HttpClient,
+  npmrc: NpmrcConfig,
+  packageName: string
+): Promise<Record<string, string> | null> {
+  try {
+    const target = resolveNpmRegistryTarget(npmrc, packageName);
+    const response = await http.request(
+      `${target.url}/-/package/${escapePackageName(packageName)}/dist-tags`,
+      {
+        headers: {
+          Accept: "application/json",
+          ...target.headers,
+        },
+      }
+    );
+    if (!response.ok) {
+      return null;
+    }
+    const data: unknown = await response.json();
+    return typeof data === "object" && data !== null
+      ? (data as Record<string, string>)
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+// Same escaping as npm-package-arg: keep the scope's "@" and only encode the
+// separator, which private registries (Verdaccio, Artifactory) expect.
+function escapePackageName(packageName: string): string {
+  return packageName.startsWith("@")
+    ? `@${encodeURIComponent(packageName.slice(1))}`
+    : encodeURIComponent(packageName);
+}
+
+function toRegistryPackage(data: unknown): NpmRegistryPackage | null {
+  if (typeof data !== "object" || data === null) {
+    return null;
+  }
+  return data as NpmRegistryPackage;
+}
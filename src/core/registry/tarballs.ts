@@ -0,0 +1,56 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+
+import {
+  createDefaultNpmrcConfig,
+  type NpmrcConfig,
+  resolveNpmRegistryTarget,
+} from "../../infra/fs/npmrc";
+import type { HttpClient } from "../../infra/http/client";
+
+export type TarballClient = {
+  // Raw .tgz bytes; null when the download fails.
+  getTarball(
+    packageName: string,
+    version: string,
+    url: string
+  ): Promise<Uint8Array | null>;
+};
+
+export function createRegistryTarballClient(
+  http: HttpClient,
+  npmrc: NpmrcConfig = createDefaultNpmrcConfig()
+): TarballClient {
+  return {
+    async getTarball(packageName, _version, url) {
+      // Registry credentials only go to the registry that serves the package.
+      const target = resolveNpmRegistryTarget(npmrc, packageName);
+      const headers = url.startsWith(`${target.url}/`) ? target.headers : {};
+      try {
+        const response = await http.request(url, { headers });
+        if (!response.ok) {
+          return null;
+        }
+        return new Uint8Array(await response.arrayBuffer());
+      } catch {
+        return null;
+      }
+    },
+  };
+}
+
+// Reads recorded tarballs from <dir>/tarballs/<name>-<version>.tgz
+// (scoped packages live under <dir>/tarballs/@scope/<name>-<version>.tgz).
+export function createFixtureTarballClient(dir: string): TarballClient {
+  return {
+    async getTarball(packageName, version) {
+      try {
+        return await fs.readFile(
+          path.resolve(dir, "tarballs", `${packageName}-${version}.tgz`)
+        );
+      } catch {
+        return null;
+      }
+    },
+  };
+}
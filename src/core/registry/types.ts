@@ -0,0 +1,35 @@
+export type NpmRegistryRepository =
+  | string
+  | {
+      type?: string;
+      url?: string;
+      // Package subdirectory in a monorepo, e.g. "packages/babel-core".
+      directory?: string;
+    };
+
+export type NpmRegistryVersionManifest = {
+  deprecated?: string;
+  // Commit the version was published from.
+  gitHead?: string;
+  engines?: Record<string, string>;
+  dependencies?: Record<string, string>;
+  optionalDependencies?: Record<string, string>;
+  peerDependencies?: Record<string, string>;
+  peerDependenciesMeta?: Record<string, { optional?: boolean }>;
+  dist?: {
+    tarball?: string;
+  };
+};
+
+export type NpmRegistryPackage = {
+  "dist-tags"?: Record<string, string>;
+  versions?: Record<string, NpmRegistryVersionManifest>;
+  time?: Record<string, string>;
+  repository?: NpmRegistryRepository;
+};
+
+export type RegistryClient = {
+  getPackage(packageName: string): Promise<NpmRegistryPackage | null>;
+  // Just the dist-tags, without downloading the packument.
+  getDistTags(packageName: string): Promise<Record<string, string> | null>;
+};
@@ -7,12 +7,15 @@ import type {
 
 type NextUpdatesPackageDetailsBase = Omit<
   NextUpdatesPackageDetails,
-  "versionWindow" | "evidence"
+  "versionWindow" | "evidence" | "signals" | "security" | "compatibility"
 >;
 
 type NextUpdatesPackageGroupsBase = {
   dependencies?: Record<string, NextUpdatesPackageDetailsBase>;
   devDependencies?: Record<string, NextUpdatesPackageDetailsBase>;
+  optionalDependencies?: Record<string, NextUpdatesPackageDetailsBase>;
+  peerDependencies?: Record<string, NextUpdatesPackageDetailsBase>;
+  catalog?: Record<string, NextUpdatesPackageDetailsBase>;
   unknown?: Record<string, NextUpdatesPackageDetailsBase>;
 };
 
@@ -32,6 +35,8 @@ export function buildPackagesFromBaseCandidates(
     depGroup[candidate.packageName] = {
       current: candidate.current,
       target: candidate.target,
+      policy: candidate.policy,
+      catalog: candidate.catalog,
     };
 
     fileGroup[candidate.dependencyType] = depGroup;
@@ -51,8 +56,13 @@ export function buildPackagesFromCandidates(
     depGroup[candidate.packageName] = {
       current: candidate.current,
       target: candidate.target,
+      policy: candidate.policy,
+      catalog: candidate.catalog,
       versionWindow: candidate.versionWindow,
       evidence: candidate.evidence,
+      signals: candidate.signals,
+      security: candidate.security,
+      compatibility: candidate.compatibility,
     };
 
     fileGroup[candidate.dependencyType] = depGroup;
@@ -2,31 +2,74 @@ import fs from "node:fs/promises";
 import path from "node:path";
 
 import { run as ncuRun } from "npm-check-updates";
+import { parseDuration } from "../../config/duration";
+import { createGlobMatcher } from "../../config/glob";
 import type {
   NextUpdatesDep,
+  NextUpdatesEvidenceOptions,
+  NextUpdatesNetworkOptions,
+  NextUpdatesPolicyOptions,
   NextUpdatesRisk,
   NextUpdatesScope,
   NextUpdatesTarget,
 } from "../../config/options";
+import { readRepoNodeVersion } from "../../infra/fs/node-version";
 import {
   hasWorkspaceConfig,
   type RootPackageJson,
   readRootPackageJson,
 } from "../../infra/fs/workspaces";
 import { buildCandidates, sortCandidates } from "../candidates/build";
-import { applyRiskFilter } from "../candidates/risk-filter";
+import {
+  buildCatalogCandidates,
+  type CatalogUsage,
+  readCatalogUsage,
+} from "../candidates/catalogs";
+import { applyReleaseAge } from "../candidates/cooldown";
+import { buildUpgradeGroups } from "../candidates/groups";
+import { collectOverrides, readOverrideEntries } from "../candidates/overrides";
+import {
+  applyWorkspacePolicy,
+  createTargetPolicyResolver,
+  resolveCandidateWorkspace,
+} from "../candidates/policy";
+import {
+  applyEvidenceRiskFilter,
+  applyRiskFilter,
+  requiresReleaseNotes,
+} from "../candidates/risk-filter";
+import { collectTransitivePackages } from "../candidates/transitive";
 import { writeDebugDump } from "../debug";
+import {
+  createEvidenceClients,
+  type EvidenceClients,
+} from "../evidence/clients";
 import { collectCandidateEvidence } from "../evidence/collect";
-import { createInstalledVersionLookup } from "../lockfiles/detect";
-import { coerceNcuUpgraded, normalizeNcuResult } from "../ncu/normalize";
-import { createRunOptions, createTargetVersionCollector } from "../ncu/run";
+import { createCompatibilityRepoContext } from "../evidence/compatibility";
+import {
+  createInstalledVersionLookup,
+  createLockfileGraph,
+  type InstalledVersionLookup,
+} from "../lockfiles/detect";
+import {
+  coerceNcuUpgraded,
+  isWorkspacesResult,
+  type NormalizedNcuCandidate,
+  normalizeNcuResult,
+} from "../ncu/normalize";
+import {
+  applyRunPolicy,
+  createRunOptions,
+  createTargetVersionCollector,
+  ncuPassesForDep,
+} from "../ncu/run";
 import { resolveScopeEffective } from "../scope";
 import {
   buildPackagesFromBaseCandidates,
   buildPackagesFromCandidates,
 } from "./build";
 import { formatNextUpdatesPromptMarkdown as formatReportMarkdown } from "./format";
-import type { NextUpdatesReport } from "./types";
+import type { NextUpdatesCandidateBase, NextUpdatesReport } from "./types";
 
 export async function collectNextUpdatesReport(options: {
   cwd: string;
@@ -34,6 +77,10 @@ export async function collectNextUpdatesReport(options: {
   target: NextUpdatesTarget;
   dep: NextUpdatesDep;
   risk: NextUpdatesRisk;
+  evidence?: NextUpdatesEvidenceOptions;
+  network?: NextUpdatesNetworkOptions;
+  policy?: NextUpdatesPolicyOptions;
+  clients?: EvidenceClients;
   debugDumpDir?: string;
 }): Promise<NextUpdatesReport> {
   const generatedAt = new Date().toISOString();
@@ -52,40 +99,28 @@ export async function collectNextUpdatesReport(options: {
   const installedVersionLookup = await createInstalledVersionLookup(
     options.cwd
   );
-  const { targetVersions, filterResults } = createTargetVersionCollector();
-
-  const runOptions = createRunOptions(
-    options.cwd,
-    scopeEffective,
-    options.target,
-    options.dep
-  );
-  runOptions.filterResults = filterResults;
-
-  const upgradedRaw = await ncuRun(runOptions);
-  const upgraded = coerceNcuUpgraded(upgradedRaw);
-  if (options.debugDumpDir) {
-    await writeDebugDump(
-      options.debugDumpDir,
-      "00-ncu-raw.json",
-      upgradedRaw ?? null
-    );
-    const normalized = normalizeNcuResult(upgraded);
-    await writeDebugDump(
-      options.debugDumpDir,
-      "01-ncu-normalized.json",
-      normalized
-    );
-  }
-
-  const candidates = await buildCandidates(
-    options.cwd,
-    upgraded,
-    installedVersionLookup,
-    targetVersions
+  const candidates = applyWorkspacePolicy(
+    await collectPolicyCandidates({
+      cwd: options.cwd,
+      scopeEffective,
+      target: options.target,
+      dep: options.dep,
+      policy: options.policy ?? {},
+      installedVersionLookup,
+      debugDumpDir: options.debugDumpDir,
+    }),
+    options.policy?.workspaces
   );
-  sortCandidates(candidates);
-  const filteredCandidates = applyRiskFilter(candidates, options.risk);
+  const clients =
+    options.clients ??
+    (await createEvidenceClients({ cwd: options.cwd, ...options.network }));
+  const agedCandidates = await applyReleaseAge(candidates, clients.registry, {
+    target: options.target,
+    minAgeMs: parseMinAge(options.policy?.minAge),
+    now: Date.parse(generatedAt),
+  });
+  sortCandidates(agedCandidates);
+  const filteredCandidates = applyRiskFilter(agedCandidates, options.risk);
   if (options.debugDumpDir) {
     const packagesWithCurrent =
       buildPackagesFromBaseCandidates(filteredCandidates);
@@ -96,18 +131,52 @@ export async function collectNextUpdatesReport(options: {
     );
   }
 
+  const compatibilityRepo = await createCompatibilityRepoContext({
+    cwd: options.cwd,
+    node: await readRepoNodeVersion(options.cwd),
+    installedVersionLookup,
+    packageFiles: filteredCandidates.map((candidate) => candidate.packageFile),
+  });
   const evidenceResults = await collectCandidateEvidence(
     filteredCandidates.map((candidate) => ({
       packageName: candidate.packageName,
+      packageFile: candidate.packageFile,
       installedVersion: candidate.current.version,
       targetVersion: candidate.target.version,
-    }))
+    })),
+    clients,
+    {
+      ...options.evidence,
+      withNotes:
+        options.evidence?.withNotes === true ||
+        requiresReleaseNotes(options.risk),
+    },
+    compatibilityRepo
+  );
+  const candidatesWithEvidence = applyEvidenceRiskFilter(
+    filteredCandidates.map((candidate, index) => ({
+      ...candidate,
+      ...evidenceResults[index],
+    })),
+    options.risk
   );
-  const candidatesWithEvidence = filteredCandidates.map((candidate, index) => ({
-    ...candidate,
-    ...evidenceResults[index],
-  }));
   const packages = buildPackagesFromCandidates(candidatesWithEvidence);
+  const ignore = options.policy?.ignore
+    ? createGlobMatcher(options.policy.ignore)
+    : undefined;
+  // Overrides only exist in the root manifest and apply to the whole install.
+  const overrideEntries =
+    scopeEffective === "workspaces" ? [] : readOverrideEntries(rootPackageJson);
+  const lockfileGraph =
+    options.evidence?.transitive || overrideEntries.length > 0
+      ? await createLockfileGraph(options.cwd)
+      : null;
+  const overrides = await collectOverrides(overrideEntries, {
+    registry: clients.registry,
+    installedVersionLookup,
+    graph: lockfileGraph,
+    ignore,
+  });
   if (options.debugDumpDir) {
     await writeDebugDump(
       options.debugDumpDir,
@@ -124,11 +193,175 @@ export async function collectNextUpdatesReport(options: {
       target: options.target,
       dep: options.dep,
       risk: options.risk,
+      ...(options.policy?.policies
+        ? { targetPolicies: options.policy.policies }
+        : {}),
     },
     packages,
+    upgradeGroups: buildUpgradeGroups(candidatesWithEvidence),
+    ...(overrides.length > 0 ? { overrides } : {}),
+    ...(options.evidence?.transitive && lockfileGraph
+      ? {
+          transitive: await collectTransitivePackages(lockfileGraph, {
+            registry: clients.registry,
+            ignore,
+          }),
+        }
+      : {}),
   };
 }
 
+// One ncu run per pass of --dep (see ncuPassesForDep), plus the catalogs.
+async function runNcuCandidates(
+  options: {
+    cwd: string;
+    scopeEffective: NextUpdatesScope;
+    dep: NextUpdatesDep;
+    installedVersionLookup: InstalledVersionLookup;
+    catalogs: readonly CatalogUsage[];
+  },
+  target: NextUpdatesTarget,
+  policy: NextUpdatesPolicyOptions
+): Promise<{
+  raw: unknown;
+  normalized: NormalizedNcuCandidate[];
+  candidates: NextUpdatesCandidateBase[];
+}> {
+  const passes = ncuPassesForDep(options.dep);
+  const raw: Record<string, unknown> = {};
+  const normalized: NormalizedNcuCandidate[] = [];
+  const candidates: NextUpdatesCandidateBase[] = [];
+  for (const dep of passes) {
+    const { targetVersions, filterResults } = createTargetVersionCollector();
+    const runOptions = createRunOptions(
+      options.cwd,
+      options.scopeEffective,
+      target,
+      dep
+    );
+    applyRunPolicy(runOptions, target, policy);
+    runOptions.filterResults = filterResults;
+
+    const upgradedRaw = await ncuRun(runOptions);
+    const upgraded = coerceNcuUpgraded(upgradedRaw);
+    raw[dep] = upgradedRaw ?? null;
+    normalized.push(...normalizeNcuResult(upgraded));
+    candidates.push(
+      ...(await buildCandidates(options.cwd, upgraded, {
+        dep,
+        installedVersionLookup: options.installedVersionLookup,
+        targetVersions,
+      }))
+    );
+  }
+  return {
+    raw: passes.length === 1 ? raw[options.dep] : raw,
+    normalized,
+    candidates: [
+      ...candidates,
+      ...(await runCatalogCandidates(options, target, policy)),
+    ],
+  };
+}
+
+// ncu reports pnpm catalogs as a `pnpm-workspace.yaml` pseudo package file,
+// which buildCandidates skips on purpose: it lists every catalog entry, even
+// ones no in-scope workspace consumes. Instead each catalog is checked on its
+// own as a root package.json listing only the consumed entries.
+async function runCatalogCandidates(
+  options: {
+    cwd: string;
+    installedVersionLookup: InstalledVersionLookup;
+    catalogs: readonly CatalogUsage[];
+  },
+  target: NextUpdatesTarget,
+  policy: NextUpdatesPolicyOptions
+): Promise<NextUpdatesCandidateBase[]> {
+  const candidates: NextUpdatesCandidateBase[] = [];
+  for (const usage of options.catalogs) {
+    const { targetVersions, filterResults } = createTargetVersionCollector();
+    const runOptions = createRunOptions(
+      options.cwd,
+      "root",
+      target,
+      "dependencies"
+    );
+    applyRunPolicy(runOptions, target, policy);
+    runOptions.filterResults = filterResults;
+    runOptions.packageData = JSON.stringify({ dependencies: usage.entries });
+
+    const upgraded = coerceNcuUpgraded(await ncuRun(runOptions));
+    if (upgraded === undefined || isWorkspacesResult(upgraded)) {
+      continue;
+    }
+    candidates.push(
+      ...buildCatalogCandidates(usage, upgraded, {
+        installedVersionLookup: options.installedVersionLookup,
+        targetVersions,
+      })
+    );
+  }
+  return candidates;
+}
+
+// Runs ncu once, or once per distinct target when a policy depends on the
+// workspace or dependency type, and keeps each candidate from the run of its
+// effective target.
+async function collectPolicyCandidates(options: {
+  cwd: string;
+  scopeEffective: NextUpdatesScope;
+  target: NextUpdatesTarget;
+  dep: NextUpdatesDep;
+  policy: NextUpdatesPolicyOptions;
+  installedVersionLookup: InstalledVersionLookup;
+  debugDumpDir?: string;
+}): Promise<NextUpdatesCandidateBase[]> {
+  const resolver = createTargetPolicyResolver(options.target, options.policy);
+  const catalogs = await readCatalogUsage(
+    options.cwd,
+    options.scopeEffective,
+    options.dep
+  );
+  const runTargets = resolver.contextual ? resolver.targets : [options.target];
+  const raw: Record<string, unknown> = {};
+  const normalized: Record<string, unknown> = {};
+  const candidates: NextUpdatesCandidateBase[] = [];
+
+  for (const runTarget of runTargets) {
+    const run = await runNcuCandidates(
+      { ...options, catalogs },
+      runTarget,
+      resolver.contextual ? { ignore: options.policy.ignore } : options.policy
+    );
+    raw[runTarget] = run.raw;
+    normalized[runTarget] = run.normalized;
+    for (const candidate of run.candidates) {
+      const policy = resolver.resolve({
+        packageName: candidate.packageName,
+        dependencyType: candidate.dependencyType,
+        workspace: resolveCandidateWorkspace(candidate.packageFile),
+      });
+      if (!resolver.contextual || policy.target === runTarget) {
+        candidates.push({ ...candidate, policy });
+      }
+    }
+  }
+
+  if (options.debugDumpDir) {
+    await writeDebugDump(
+      options.debugDumpDir,
+      "00-ncu-raw.json",
+      resolver.contextual ? raw : raw[options.target]
+    );
+    await writeDebugDump(
+      options.debugDumpDir,
+      "01-ncu-normalized.json",
+      resolver.contextual ? normalized : normalized[options.target]
+    );
+  }
+  return candidates;
+}
+
 export function formatNextUpdatesPromptMarkdown(
   report: NextUpdatesReport
 ): string {
@@ -145,6 +378,17 @@ export async function writeNextUpdatesReportJson(options: {
   return outPath;
 }
 
+function parseMinAge(minAge: string | undefined): number | undefined {
+  if (minAge === undefined) {
+    return;
+  }
+  const minAgeMs = parseDuration(minAge);
+  if (minAgeMs === null) {
+    throw new Error(`Invalid minimum release age: ${minAge}`);
+  }
+  return minAgeMs;
+}
+
 async function readRootPackageJsonOrThrow(
   cwd: string
 ): Promise<RootPackageJson> {
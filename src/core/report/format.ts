@@ -1,3 +1,10 @@
+import type { NextUpdatesUpgradeGroup } from "../candidates/groups";
+import type { NextUpdatesOverride } from "../candidates/overrides";
+import type {
+  NextUpdatesTransitivePackage,
+  NextUpdatesTransitiveVia,
+} from "../candidates/transitive";
+import type { NextUpdatesAdvisory } from "../evidence/security";
 import {
   dependencyTypeOrder,
   type NextUpdatesCandidateBase,
@@ -6,6 +13,15 @@ import {
   type NextUpdatesReport,
 } from "./types";
 
+const dependencyTypeSuffixes: Partial<
+  Record<NextUpdatesCandidateBase["dependencyType"], string>
+> = {
+  devDependencies: " (dev)",
+  optionalDependencies: " (optional)",
+  peerDependencies: " (peer)",
+  catalog: " (catalog)",
+};
+
 export function formatNextUpdatesPromptMarkdown(
   report: NextUpdatesReport
 ): string {
@@ -24,11 +40,19 @@ export function formatNextUpdatesPromptMarkdown(
     "",
   ];
 
+  const rootLines = [
+    ...formatOverrideLines(report.overrides ?? []),
+    ...formatTransitiveLines(report.transitive ?? []),
+  ];
   if (!hasPackages(report.packages)) {
-    lines.push("No updates found.");
+    lines.push(...rootLines, "No updates found.");
     return `${lines.join("\n")}\n`;
   }
 
+  lines.push(...formatSecurityLines(report.packages));
+  lines.push(...formatUpgradeGroupLines(report.upgradeGroups ?? []));
+  lines.push(...rootLines);
+
   const packageFiles = Object.keys(report.packages).sort();
   for (const packageFile of packageFiles) {
     const fileGroup = report.packages[packageFile];
@@ -42,6 +66,11 @@ export function formatNextUpdatesPromptMarkdown(
       for (const packageName of packageNames) {
         const details = depGroup[packageName];
         lines.push(formatPackageLine(packageName, dependencyType, details));
+        lines.push(...formatSignalLines(details));
+        lines.push(...formatCompatibilityLines(details));
+        lines.push(...formatPackageDiffLines(details));
+        lines.push(...formatReleaseLines(details));
+        lines.push(...formatReleaseNotesLines(details));
       }
     }
     lines.push("");
@@ -50,6 +79,297 @@ export function formatNextUpdatesPromptMarkdown(
   return `${lines.join("\n")}\n`;
 }
 
+function listPackageEntries(packages: NextUpdatesPackages): {
+  packageFile: string;
+  packageName: string;
+  details: NextUpdatesPackageDetails;
+}[] {
+  const entries: {
+    packageFile: string;
+    packageName: string;
+    details: NextUpdatesPackageDetails;
+  }[] = [];
+  for (const packageFile of Object.keys(packages).sort()) {
+    const fileGroup = packages[packageFile];
+    for (const dependencyType of dependencyTypeOrder) {
+      const depGroup = fileGroup[dependencyType] ?? {};
+      for (const packageName of Object.keys(depGroup).sort()) {
+        entries.push({
+          packageFile,
+          packageName,
+          details: depGroup[packageName],
+        });
+      }
+    }
+  }
+  return entries;
+}
+
+function formatSecurityLines(packages: NextUpdatesPackages): string[] {
+  const lines: string[] = [];
+  for (const entry of listPackageEntries(packages)) {
+    for (const advisory of entry.details.security?.advisories ?? []) {
+      lines.push(
+        formatAdvisoryLine(entry.packageName, entry.packageFile, advisory)
+      );
+    }
+  }
+
+  if (lines.length === 0) {
+    return [];
+  }
+  return ["## Security", "", ...lines, ""];
+}
+
+function formatUpgradeGroupLines(
+  groups: readonly NextUpdatesUpgradeGroup[]
+): string[] {
+  if (groups.length === 0) {
+    return [];
+  }
+  const lines = ["## Upgrade groups", ""];
+  for (const group of groups) {
+    const packages = group.packages
+      .map((member) => `\`${member.packageName}\` (${member.change})`)
+      .join(", ");
+    lines.push(
+      `- ${packages} — risk: ${group.risk}; grouped by ${group.reasons.join(", ")}`,
+      ...group.riskReasons.map((reason) => `  - ${reason}`)
+    );
+  }
+  lines.push("");
+  return lines;
+}
+
+function formatOverrideLines(
+  overrides: readonly NextUpdatesOverride[]
+): string[] {
+  if (overrides.length === 0) {
+    return [];
+  }
+  const lines = ["## Overrides", ""];
+  for (const override of overrides) {
+    const installed = override.installed ?? "<unknown>";
+    const latest = override.latest ?? "<unknown>";
+    const outdated = override.outdated ? ", outdated" : "";
+    let needed = "unknown (no lockfile, or no installed package depends on it)";
+    if (override.needed !== null) {
+      needed = override.needed ? "yes" : "no";
+    }
+    lines.push(
+      `- \`${override.packageName}\` via ${override.source} \`${override.key}\`: pinned \`${override.pinned}\` (installed: \`${installed}\`, latest: \`${latest}\`${outdated}); still needed: ${needed}`,
+      ...override.dependents.map(
+        (dependent) =>
+          `  - \`${dependent.packageName}@${dependent.version}\` requires \`${dependent.range}\`${dependent.allowsOverridden ? "" : " (already past the overridden range)"}`
+      )
+    );
+  }
+  lines.push("");
+  return lines;
+}
+
+const maxTransitiveVia = 3;
+
+function formatTransitiveLines(
+  packages: readonly NextUpdatesTransitivePackage[]
+): string[] {
+  if (packages.length === 0) {
+    return [];
+  }
+  const lines = ["## Transitive dependencies", ""];
+  for (const entry of packages) {
+    const flags = [
+      entry.outdated ? "outdated" : null,
+      entry.duplicated ? "duplicated" : null,
+    ].filter((flag) => flag !== null);
+    lines.push(
+      `- \`${entry.packageName}\`: installed ${entry.versions.map((version) => `\`${version}\``).join(", ")}, latest: \`${entry.latest ?? "<unknown>"}\` (${flags.join(", ")})`
+    );
+    lines.push(
+      ...entry.via.slice(0, maxTransitiveVia).map(formatTransitiveViaLine)
+    );
+    if (entry.viaCount > maxTransitiveVia) {
+      lines.push(`  - +${entry.viaCount - maxTransitiveVia} more`);
+    }
+  }
+  lines.push("");
+  return lines;
+}
+
+function formatTransitiveViaLine(via: NextUpdatesTransitiveVia): string {
+  let refresh = "";
+  if (via.refreshedByUpgrade !== null) {
+    refresh = via.refreshedByUpgrade
+      ? "; upgrading it refreshes this"
+      : "; upgrading it does not refresh this";
+  }
+  return `  - via \`${via.directDependency}@${via.directVersion}\` (${via.packageFiles.join(", ")}): ${via.path.join(" > ")}@${via.version}${refresh}`;
+}
+
+function formatAdvisoryLine(
+  packageName: string,
+  packageFile: string,
+  advisory: NextUpdatesAdvisory
+): string {
+  let fix = "target unknown";
+  if (advisory.fixedByTarget !== null) {
+    fix = advisory.fixedByTarget ? "fixed by target" : "still affects target";
+  }
+  const url = advisory.url ? ` ${advisory.url}` : "";
+  return `- \`${packageName}\` (${packageFile}): ${advisory.severity} — ${advisory.title} (vulnerable: \`${advisory.vulnerableVersions}\`) — ${fix}${url}`;
+}
+
+function formatSignalLines(details: NextUpdatesPackageDetails): string[] {
+  const lines = formatDeprecationLines(details);
+  const breaking = details.signals?.breaking;
+  if (breaking?.detected) {
+    lines.push(
+      "  - Breaking signals:",
+      ...breaking.excerpts.map((excerpt) => `    - ${excerpt}`)
+    );
+  }
+  return lines;
+}
+
+function formatDeprecationLines(details: NextUpdatesPackageDetails): string[] {
+  const deprecation = details.signals?.deprecation;
+  if (!deprecation) {
+    return [];
+  }
+  const lines = ["  - Deprecated:"];
+  if (deprecation.package) {
+    const replacement = deprecation.package.replacement
+      ? ` (replacement: \`${deprecation.package.replacement}\`)`
+      : "";
+    lines.push(`    - package: ${deprecation.package.message}${replacement}`);
+  }
+  if (deprecation.installed) {
+    lines.push(`    - installed: ${deprecation.installed}`);
+  }
+  if (deprecation.target) {
+    lines.push(`    - target: ${deprecation.target}`);
+  }
+  return lines;
+}
+
+function formatCompatibilityLines(
+  details: NextUpdatesPackageDetails
+): string[] {
+  const compatibility = details.compatibility;
+  if (!compatibility) {
+    return [];
+  }
+
+  const lines = [
+    compatibility.compatible
+      ? "  - Compatibility changes:"
+      : "  - Compatibility: INCOMPATIBLE",
+  ];
+  const engines = compatibility.engines;
+  if (engines) {
+    const repo = engines.repoNode
+      ? ` (repo: \`${engines.repoNode.range}\` from ${engines.repoNode.source})`
+      : "";
+    lines.push(
+      `    - engines.node: \`${engines.installed ?? "(none)"}\` -> \`${engines.target}\`${repo}${formatSatisfied(engines.satisfied)}`
+    );
+  }
+  for (const peer of compatibility.peerDependencies) {
+    const installed = peer.installedVersion
+      ? ` (installed: \`${peer.installedVersion}\`)`
+      : "";
+    lines.push(
+      `    - peer \`${peer.name}\` ${peer.change}: \`${peer.installedRange ?? "(none)"}\` -> \`${peer.targetRange ?? "(none)"}\`${installed}${formatSatisfied(peer.satisfied)}`
+    );
+  }
+  return lines;
+}
+
+function formatSatisfied(satisfied: boolean | null): string {
+  if (satisfied === null) {
+    return "";
+  }
+  return satisfied ? " — ok" : " — not satisfied";
+}
+
+const maxPackageDiffPaths = 10;
+
+function formatPackageDiffLines(details: NextUpdatesPackageDetails): string[] {
+  const diff = details.evidence?.packageDiff;
+  if (!diff) {
+    return [];
+  }
+  const { files, unpackedSize } = diff;
+  const sign = unpackedSize.delta >= 0 ? "+" : "-";
+  const lines = [
+    `  - Package diff: ${files.added.count} added, ${files.removed.count} removed, ${files.changed.count} changed (${files.unchanged} unchanged); unpacked size ${formatBytes(unpackedSize.from)} -> ${formatBytes(unpackedSize.to)} (${sign}${formatBytes(Math.abs(unpackedSize.delta))})`,
+    ...diff.packageJson.map(
+      (change) =>
+        `    - package.json \`${change.field}\`: \`${JSON.stringify(change.from)}\` -> \`${JSON.stringify(change.to)}\``
+    ),
+  ];
+  for (const [label, listed] of [
+    ["added", files.added],
+    ["removed", files.removed],
+  ] as const) {
+    if (listed.count === 0) {
+      continue;
+    }
+    const shown = listed.paths.slice(0, maxPackageDiffPaths);
+    const more =
+      listed.count > shown.length ? `, … (${listed.count} total)` : "";
+    lines.push(
+      `    - ${label}: ${shown.map((filePath) => `\`${filePath}\``).join(", ")}${more}`
+    );
+  }
+  return lines;
+}
+
+function formatBytes(bytes: number): string {
+  return bytes < 1000 ? `${bytes} B` : `${(bytes / 1000).toFixed(1)} kB`;
+}
+
+function formatReleaseLines(details: NextUpdatesPackageDetails): string[] {
+  const releases = details.evidence?.releases ?? [];
+  if (releases.length === 0) {
+    return [];
+  }
+  return [
+    "  - Releases:",
+    ...releases.map((release) => {
+      const name =
+        release.name && release.name !== release.tagName
+          ? ` ${release.name}`
+          : "";
+      const date = release.publishedAt
+        ? ` (${release.publishedAt.slice(0, 10)})`
+        : "";
+      return `    - \`${release.tagName}\`${name}${date}`;
+    }),
+  ];
+}
+
+function formatReleaseNotesLines(details: NextUpdatesPackageDetails): string[] {
+  const notes = details.evidence?.notes;
+  if (!notes || notes.sections.length === 0) {
+    return [];
+  }
+
+  const lines = [`  - Release notes (${notes.source}): ${notes.url}`];
+  for (const section of notes.sections) {
+    lines.push(`    - \`${section.version}\``);
+    const bodyLines =
+      section.body === "" ? ["(empty)"] : section.body.split("\n");
+    for (const bodyLine of bodyLines) {
+      lines.push(bodyLine.trim() === "" ? "      >" : `      > ${bodyLine}`);
+    }
+  }
+  if (notes.truncated) {
+    lines.push("    - (truncated; see the source for the full notes)");
+  }
+  return lines;
+}
+
 function hasPackages(packages: NextUpdatesPackages): boolean {
   for (const fileGroup of Object.values(packages)) {
     for (const dependencyType of dependencyTypeOrder) {
@@ -62,6 +382,18 @@ function hasPackages(packages: NextUpdatesPackages): boolean {
   return false;
 }
 
+function formatReleaseAge(details: NextUpdatesPackageDetails): string {
+  const { publishedAt, ageDays, skippedForAge } = details.target;
+  if (!publishedAt) {
+    return "";
+  }
+  const age = ageDays === 1 ? "1 day ago" : `${ageDays ?? 0} days ago`;
+  const skipped = skippedForAge
+    ? `, \`${skippedForAge}\` skipped as too new`
+    : "";
+  return `, published: ${publishedAt.slice(0, 10)} (${age})${skipped}`;
+}
+
 function formatPackageLine(
   packageName: string,
   dependencyType: NextUpdatesCandidateBase["dependencyType"],
@@ -74,10 +406,16 @@ function formatPackageLine(
     details.target.range === "" ? "<unknown>" : details.target.range;
   const targetVersion = details.target.version ?? "<unknown>";
 
-  let typeSuffix = "";
-  if (dependencyType === "devDependencies") {
-    typeSuffix = " (dev)";
-  }
+  const typeSuffix = dependencyTypeSuffixes[dependencyType] ?? "";
+
+  const policy =
+    details.policy && details.policy.source !== "default"
+      ? `, policy: ${details.policy.target} via ${details.policy.source}`
+      : "";
+
+  const consumers = details.catalog
+    ? `, used by: ${details.catalog.consumers.join(", ")}`
+    : "";
 
-  return `- \`${packageName}\`${typeSuffix}: \`${currentRange}\` → \`${targetRange}\` (installed: \`${installed}\`, target: \`${targetVersion}\`)`;
+  return `- \`${packageName}\`${typeSuffix}: \`${currentRange}\` → \`${targetRange}\` (installed: \`${installed}\`, target: \`${targetVersion}\`${formatReleaseAge(details)}${policy}${consumers})`;
 }
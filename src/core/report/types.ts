@@ -3,22 +3,48 @@ import type {
   NextUpdatesRisk,
   NextUpdatesScope,
   NextUpdatesTarget,
+  NextUpdatesTargetRule,
 } from "../../config/options";
+import type { NextUpdatesBisectResult } from "../apply/bisect";
+import type { NextUpdatesVerification } from "../apply/verify";
+import type { NextUpdatesCatalog } from "../candidates/catalogs";
+import type { NextUpdatesUpgradeGroup } from "../candidates/groups";
+import type { NextUpdatesOverride } from "../candidates/overrides";
+import type { NextUpdatesTargetPolicy } from "../candidates/policy";
+import type { NextUpdatesTransitivePackage } from "../candidates/transitive";
 import type {
+  NextUpdatesCandidateRelations,
   NextUpdatesEvidence,
+  NextUpdatesSignals,
   NextUpdatesVersionWindow,
 } from "../evidence/collect";
+import type { NextUpdatesCompatibility } from "../evidence/compatibility";
+import type { NextUpdatesSecurity } from "../evidence/security";
 
 export type NextUpdatesVersionSpec = {
   range: string;
   version: string | null;
+  // Target only: registry publish time, its age, and the release --min-age
+  // rejected as too fresh.
+  publishedAt?: string;
+  ageDays?: number;
+  skippedForAge?: string;
 };
 
-export type DependencyType = "dependencies" | "devDependencies" | "unknown";
+export type DependencyType =
+  | "dependencies"
+  | "devDependencies"
+  | "optionalDependencies"
+  | "peerDependencies"
+  | "catalog"
+  | "unknown";
 
 export const dependencyTypeOrder: DependencyType[] = [
   "dependencies",
   "devDependencies",
+  "optionalDependencies",
+  "peerDependencies",
+  "catalog",
   "unknown",
 ];
 
@@ -28,23 +54,37 @@ export type NextUpdatesCandidateBase = {
   packageName: string;
   current: NextUpdatesVersionSpec;
   target: NextUpdatesVersionSpec;
+  policy?: NextUpdatesTargetPolicy;
+  catalog?: NextUpdatesCatalog;
 };
 
 export type NextUpdatesCandidate = NextUpdatesCandidateBase & {
   versionWindow: NextUpdatesVersionWindow;
   evidence: NextUpdatesEvidence | null;
+  signals: NextUpdatesSignals;
+  relations: NextUpdatesCandidateRelations;
+  security?: NextUpdatesSecurity;
+  compatibility?: NextUpdatesCompatibility;
 };
 
 export type NextUpdatesPackageDetails = {
   current: NextUpdatesVersionSpec;
   target: NextUpdatesVersionSpec;
+  policy?: NextUpdatesTargetPolicy;
+  catalog?: NextUpdatesCatalog;
   versionWindow: NextUpdatesVersionWindow;
   evidence: NextUpdatesEvidence | null;
+  signals?: NextUpdatesSignals;
+  security?: NextUpdatesSecurity;
+  compatibility?: NextUpdatesCompatibility;
 };
 
 export type NextUpdatesPackageGroups = {
   dependencies?: Record<string, NextUpdatesPackageDetails>;
   devDependencies?: Record<string, NextUpdatesPackageDetails>;
+  optionalDependencies?: Record<string, NextUpdatesPackageDetails>;
+  peerDependencies?: Record<string, NextUpdatesPackageDetails>;
+  catalog?: Record<string, NextUpdatesPackageDetails>;
   unknown?: Record<string, NextUpdatesPackageDetails>;
 };
 
@@ -58,6 +98,12 @@ export type NextUpdatesReport = {
     target: NextUpdatesTarget;
     dep: NextUpdatesDep;
     risk: NextUpdatesRisk;
+    targetPolicies?: NextUpdatesTargetRule[];
   };
   packages: NextUpdatesPackages;
+  upgradeGroups?: NextUpdatesUpgradeGroup[];
+  overrides?: NextUpdatesOverride[];
+  transitive?: NextUpdatesTransitivePackage[];
+  verification?: NextUpdatesVerification[];
+  bisect?: NextUpdatesBisectResult;
 };
@@ -0,0 +1,77 @@
+import { gunzipSync } from "node:zlib";
+
+const blockSize = 512;
+const paxPathRegex = /^\d+ path=(.*)$/;
+
+// Reads the regular files of a gzipped tarball (npm's .tgz), keyed by path.
+// Handles ustar prefixes, pax `path` records and GNU long names; links,
+// directories and other entry types are skipped. Returns null when the
+// archive cannot be decompressed.
+export function readTarballFiles(
+  gzipped: Uint8Array
+): Map<string, Buffer> | null {
+  let archive: Buffer;
+  try {
+    archive = gunzipSync(gzipped);
+  } catch {
+    return null;
+  }
+
+  const files = new Map<string, Buffer>();
+  let longName: string | null = null;
+  let offset = 0;
+  while (offset + blockSize <= archive.length) {
+    const header = archive.subarray(offset, offset + blockSize);
+    if (header.every((byte) => byte === 0)) {
+      break;
+    }
+    const size = readOctal(header.subarray(124, 136));
+    const type = String.fromCharCode(header[156] || 48);
+    const dataStart = offset + blockSize;
+    const data = archive.subarray(dataStart, dataStart + size);
+    offset = dataStart + Math.ceil(size / blockSize) * blockSize;
+
+    if (type === "L") {
+      longName = readString(data);
+      continue;
+    }
+    if (type === "x") {
+      longName = readPaxPath(data) ?? longName;
+      continue;
+    }
+    if (type === "0" || type === "7") {
+      files.set(longName ?? readHeaderPath(header), Buffer.from(data));
+    }
+    longName = null;
+  }
+  return files;
+}
+
+function readHeaderPath(header: Buffer): string {
+  const name = readString(header.subarray(0, 100));
+  const magic = readString(header.subarray(257, 263));
+  const prefix = magic.startsWith("ustar")
+    ? readString(header.subarray(345, 500))
+    : "";
+  return prefix ? `${prefix}/${name}` : name;
+}
+
+function readPaxPath(data: Buffer): string | null {
+  for (const record of data.toString("utf8").split("\n")) {
+    const match = paxPathRegex.exec(record);
+    if (match) {
+      return match[1];
+    }
+  }
+  return null;
+}
+
+function readOctal(field: Buffer): number {
+  const value = Number.parseInt(readString(field).trim() || "0", 8);
+  return Number.isNaN(value) ? 0 : value;
+}
+
+function readString(field: Buffer): string {
+  const end = field.indexOf(0);
+  return field.subarray(0, end === -1 ? field.length : end).toString("utf8");
+}
@@ -0,0 +1,47 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+
+import { readRootPackageJson } from "./workspaces";
+
+export type RepoNodeVersion = {
+  range: string;
+  source: "engines" | ".nvmrc" | ".node-version";
+};
+
+const versionPrefixRegex = /^v/;
+
+// engines.node declares what the repo supports, so it wins over the
+// version-manager pins (.nvmrc, .node-version) that only say what it runs on.
+export async function readRepoNodeVersion(
+  cwd: string
+): Promise<RepoNodeVersion | null> {
+  const pkg = (await readRootPackageJson(cwd)) as {
+    engines?: { node?: unknown };
+  } | null;
+  const enginesNode = pkg?.engines?.node;
+  if (typeof enginesNode === "string" && enginesNode.trim() !== "") {
+    return { range: enginesNode.trim(), source: "engines" };
+  }
+
+  for (const source of [".nvmrc", ".node-version"] as const) {
+    const pinned = await readVersionFile(path.resolve(cwd, source));
+    if (pinned) {
+      return { range: pinned, source };
+    }
+  }
+
+  return null;
+}
+
+async function readVersionFile(filePath: string): Promise<string | null> {
+  try {
+    const raw = await fs.readFile(filePath, "utf8");
+    const firstLine = raw.split("\n")[0]?.trim() ?? "";
+    if (firstLine === "") {
+      return null;
+    }
+    return firstLine.replace(versionPrefixRegex, "");
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,204 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+
+export type NpmrcConfig = {
+  registry: string;
+  scopes: Record<string, string>;
+  values: Record<string, string>;
+};
+
+export type NpmRegistryTarget = {
+  url: string;
+  headers: Record<string, string>;
+};
+
+const defaultRegistryUrl = "https://registry.npmjs.org/";
+const npmrcLineBreakRegex = /\r?\n/;
+const npmrcEnvRegex = /\$\{([^}?]+)(\?)?\}/g;
+const scopeRegistryKeyRegex = /^(@[^:]+):registry$/;
+const trailingSlashRegex = /\/+$/;
+
+// Mirrors the sources npm (and therefore npm-check-updates) reads. Precedence,
+// highest first: npm_config_* environment variables, the project .npmrc, then
+// the user config ($NPM_CONFIG_USERCONFIG or ~/.npmrc). The environment only
+// supplies `registry` and `@scope:registry`, never auth.
+export async function readNpmrcConfig(cwd: string): Promise<NpmrcConfig> {
+  const userConfigPath =
+    process.env.NPM_CONFIG_USERCONFIG ??
+    process.env.npm_config_userconfig ??
+    path.join(os.homedir(), ".npmrc");
+  const userValues = await readNpmrcFile(userConfigPath);
+  const projectValues = await readNpmrcFile(path.resolve(cwd, ".npmrc"));
+
+  const values: Record<string, string> = {
+    ...userValues,
+    ...projectValues,
+    ...readNpmrcEnv(),
+  };
+
+  const scopes: Record<string, string> = {};
+  for (const [key, value] of Object.entries(values)) {
+    const match = scopeRegistryKeyRegex.exec(key);
+    if (match) {
+      scopes[match[1]] = ensureTrailingSlash(value);
+    }
+  }
+
+  return {
+    registry: ensureTrailingSlash(values.registry ?? defaultRegistryUrl),
+    scopes,
+    values,
+  };
+}
+
+export function createDefaultNpmrcConfig(): NpmrcConfig {
+  return { registry: defaultRegistryUrl, scopes: {}, values: {} };
+}
+
+export function resolveNpmRegistryTarget(
+  config: NpmrcConfig,
+  packageName: string
+): NpmRegistryTarget {
+  const scope = getPackageScope(packageName);
+  const registry = (scope && config.scopes[scope]) || config.registry;
+  return {
+    url: registry.replace(trailingSlashRegex, ""),
+    headers: resolveAuthHeaders(config, registry),
+  };
+}
+
+function resolveAuthHeaders(
+  config: NpmrcConfig,
+  registry: string
+): Record<string, string> {
+  let parsed: URL;
+  try {
+    parsed = new URL(registry);
+  } catch {
+    return {};
+  }
+
+  // Credentials are keyed by "nerf-darted" registry URLs (//host/path/);
+  // walk up the path so //host/ entries also apply to nested registries.
+  let pathname = ensureTrailingSlash(parsed.pathname);
+  while (true) {
+    const headers = readAuthHeaders(config, `//${parsed.host}${pathname}`);
+    if (headers) {
+      return headers;
+    }
+    if (pathname === "/") {
+      return {};
+    }
+    const parent = path.posix.dirname(pathname.slice(0, -1));
+    pathname = parent === "/" ? "/" : `${parent}/`;
+  }
+}
+
+function readAuthHeaders(
+  config: NpmrcConfig,
+  nerfDart: string
+): Record<string, string> | null {
+  const token = config.values[`${nerfDart}:_authToken`];
+  if (token) {
+    return { Authorization: `Bearer ${token}` };
+  }
+
+  const auth = config.values[`${nerfDart}:_auth`];
+  if (auth) {
+    return { Authorization: `Basic ${auth}` };
+  }
+
+  const username = config.values[`${nerfDart}:username`];
+  const password = config.values[`${nerfDart}:_password`];
+  if (username && password) {
+    const decoded = Buffer.from(password, "base64").toString("utf8");
+    const basic = Buffer.from(`${username}:${decoded}`).toString("base64");
+    return { Authorization: `Basic ${basic}` };
+  }
+
+  return null;
+}
+
+async function readNpmrcFile(
+  filePath: string
+): Promise<Record<string, string>> {
+  try {
+    const raw = await fs.readFile(filePath, "utf8");
+    return parseNpmrc(raw);
+  } catch {
+    return {};
+  }
+}
+
+function parseNpmrc(raw: string): Record<string, string> {
+  const values: Record<string, string> = {};
+  for (const line of raw.split(npmrcLineBreakRegex)) {
+    const trimmed = line.trim();
+    if (trimmed === "" || trimmed.startsWith("#") || trimmed.startsWith(";")) {
+      continue;
+    }
+    const separatorIndex = trimmed.indexOf("=");
+    if (separatorIndex <= 0) {
+      continue;
+    }
+    const key = trimmed.slice(0, separatorIndex).trim();
+    const value = stripQuotes(trimmed.slice(separatorIndex + 1).trim());
+    values[key] = expandEnv(value);
+  }
+  return values;
+}
+
+function readNpmrcEnv(): Record<string, string> {
+  const values: Record<string, string> = {};
+  for (const [key, value] of Object.entries(process.env)) {
+    if (value === undefined) {
+      continue;
+    }
+    const lowered = key.toLowerCase();
+    if (!lowered.startsWith("npm_config_")) {
+      continue;
+    }
+    const configKey = lowered.slice("npm_config_".length);
+    if (configKey === "registry" || scopeRegistryKeyRegex.test(configKey)) {
+      values[configKey] = value;
+    }
+  }
+  return values;
+}
+
+function expandEnv(value: string): string {
+  return value.replace(
+    npmrcEnvRegex,
+    (placeholder, name: string, optional?: string) => {
+      const resolved = process.env[name];
+      if (resolved !== undefined) {
+        return resolved;
+      }
+      return optional ? "" : placeholder;
+    }
+  );
+}
+
+function stripQuotes(value: string): string {
+  if (
+    value.length >= 2 &&
+    ((value.startsWith('"') && value.endsWith('"')) ||
+      (value.startsWith("'") && value.endsWith("'")))
+  ) {
+    return value.slice(1, -1);
+  }
+  return value;
+}
+
+function ensureTrailingSlash(value: string): string {
+  return value.endsWith("/") ? value : `${value}/`;
+}
+
+function getPackageScope(packageName: string): string | null {
+  if (!packageName.startsWith("@")) {
+    return null;
+  }
+  const slashIndex = packageName.indexOf("/");
+  return slashIndex === -1 ? null : packageName.slice(0, slashIndex);
+}
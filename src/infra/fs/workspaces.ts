@@ -1,3 +1,4 @@
+import type { Dirent } from "node:fs";
 import fs from "node:fs/promises";
 import path from "node:path";
 
@@ -6,10 +7,24 @@ import { parse as parseYaml } from "yaml";
 export type RootPackageJson = {
   workspaces?: unknown;
   packageManager?: string;
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+  optionalDependencies?: Record<string, string>;
+  overrides?: unknown;
+  resolutions?: unknown;
+  pnpm?: unknown;
 };
 
-type WorkspaceConfig = {
-  packages?: unknown;
+const leadingDotSlashRegex = /^\.\//;
+const trailingSlashRegex = /\/+$/;
+const regexSpecialRegex = /[.*+?^${}()|[\]\\]/g;
+
+// Catalog name → package name → range; the top-level `catalog` is "default".
+export type PnpmCatalogs = Record<string, Record<string, string>>;
+
+export type PnpmWorkspace = {
+  packages: string[];
+  catalogs: PnpmCatalogs;
 };
 
 function parseWorkspacesValue(value: unknown): string[] {
@@ -27,17 +42,59 @@ function parseWorkspacesValue(value: unknown): string[] {
   return [];
 }
 
-async function readPnpmWorkspace(cwd: string): Promise<WorkspaceConfig | null> {
+function parseCatalog(value: unknown): Record<string, string> | null {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return null;
+  }
+  const entries = Object.entries(value).filter(
+    (entry): entry is [string, string] => typeof entry[1] === "string"
+  );
+  return Object.fromEntries(entries);
+}
+
+function parseCatalogs(config: {
+  catalog?: unknown;
+  catalogs?: unknown;
+}): PnpmCatalogs {
+  const catalogs: PnpmCatalogs = {};
+  const named =
+    typeof config.catalogs === "object" && config.catalogs !== null
+      ? Object.entries(config.catalogs)
+      : [];
+  for (const [name, value] of named) {
+    const catalog = parseCatalog(value);
+    if (catalog) {
+      catalogs[name] = catalog;
+    }
+  }
+  const defaultCatalog = parseCatalog(config.catalog);
+  if (defaultCatalog) {
+    catalogs.default = { ...catalogs.default, ...defaultCatalog };
+  }
+  return catalogs;
+}
+
+export async function readPnpmWorkspace(
+  cwd: string
+): Promise<PnpmWorkspace | null> {
   try {
     const raw = await fs.readFile(
       path.resolve(cwd, "pnpm-workspace.yaml"),
       "utf8"
     );
-    const parsed = parseYaml(raw);
+    const parsed: unknown = parseYaml(raw);
     if (typeof parsed !== "object" || parsed === null) {
       return null;
     }
-    return parsed as WorkspaceConfig;
+    const config = parsed as {
+      packages?: unknown;
+      catalog?: unknown;
+      catalogs?: unknown;
+    };
+    return {
+      packages: parseWorkspacesValue(config.packages),
+      catalogs: parseCatalogs(config),
+    };
   } catch {
     return null;
   }
@@ -69,8 +126,8 @@ export async function detectWorkspacePatterns(
   }
 
   const pnpmWorkspace = await readPnpmWorkspace(cwd);
-  if (pnpmWorkspace?.packages) {
-    patterns.push(...parseWorkspacesValue(pnpmWorkspace.packages));
+  if (pnpmWorkspace) {
+    patterns.push(...pnpmWorkspace.packages);
   }
 
   return Array.from(
@@ -85,3 +142,226 @@ export async function hasWorkspaceConfig(
   const patterns = await detectWorkspacePatterns(cwd, pkg);
   return patterns.length > 0;
 }
+
+// Expands workspace globs (npm/yarn `workspaces`, pnpm `packages`, with `!`
+// exclusions) to the relative directories that contain a package.json. Each
+// pattern is walked from its literal prefix, so unrelated trees are never
+// visited.
+export async function resolveWorkspacePaths(
+  cwd: string,
+  patterns: readonly string[]
+): Promise<string[]> {
+  const excluded = patterns
+    .filter((pattern) => pattern.startsWith("!"))
+    .map((pattern) =>
+      normalizeWorkspacePattern(pattern.slice(1)).split("/").filter(Boolean)
+    );
+  const resolved = new Set<string>();
+  for (const pattern of patterns) {
+    if (pattern.startsWith("!")) {
+      continue;
+    }
+    const matches = await resolveWorkspacePattern(cwd, pattern);
+    for (const match of matches) {
+      if (!excluded.some((segments) => matchGlob(segments, match.split("/")))) {
+        resolved.add(match);
+      }
+    }
+  }
+  return Array.from(resolved).sort();
+}
+
+async function resolveWorkspacePattern(
+  cwd: string,
+  pattern: string
+): Promise<string[]> {
+  const normalized = normalizeWorkspacePattern(pattern);
+  if (!normalized.includes("*")) {
+    const workspacePath = path.resolve(cwd, normalized);
+    if (await hasPackageJson(workspacePath)) {
+      return [normalized];
+    }
+    return [];
+  }
+
+  const patternSegments = normalized.split("/").filter(Boolean);
+  const wildcardIndex = patternSegments.findIndex((segment) =>
+    segment.includes("*")
+  );
+  const baseSegments =
+    wildcardIndex === -1
+      ? patternSegments
+      : patternSegments.slice(0, wildcardIndex);
+  const baseDir = path.resolve(cwd, baseSegments.join("/"));
+  if (!(await existsDir(baseDir))) {
+    return [];
+  }
+
+  const maxDepth = Math.max(patternSegments.length + 2, 4);
+  const candidateDirs = await walkWorkspaceDirs(baseDir, maxDepth);
+  const matches: string[] = [];
+  for (const dir of candidateDirs) {
+    const relative = path.relative(cwd, dir).replaceAll("\\", "/");
+    if (matchGlob(patternSegments, relative.split("/"))) {
+      matches.push(relative);
+    }
+  }
+  return matches;
+}
+
+async function walkWorkspaceDirs(
+  baseDir: string,
+  maxDepth: number
+): Promise<string[]> {
+  const results: string[] = [];
+  const queue: Array<{ dir: string; depth: number }> = [
+    { dir: baseDir, depth: 0 },
+  ];
+  const visited = new Set<string>();
+  const maxEntries = 500;
+
+  while (queue.length > 0) {
+    const next = queue.shift();
+    if (!next) {
+      break;
+    }
+    if (!shouldProcessDir(next, visited, maxDepth)) {
+      continue;
+    }
+    visited.add(next.dir);
+    if (await hasPackageJson(next.dir)) {
+      results.push(next.dir);
+    }
+    if (next.depth === maxDepth) {
+      continue;
+    }
+    const children = await readChildDirs(next.dir);
+    enqueueChildren({
+      queue,
+      visited,
+      children,
+      depth: next.depth,
+      maxEntries,
+    });
+  }
+
+  return results;
+}
+
+function shouldProcessDir(
+  item: { dir: string; depth: number },
+  visited: Set<string>,
+  maxDepth: number
+): boolean {
+  if (visited.has(item.dir)) {
+    return false;
+  }
+  return item.depth <= maxDepth;
+}
+
+async function readChildDirs(dir: string): Promise<string[]> {
+  let entries: Dirent[];
+  try {
+    entries = await fs.readdir(dir, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+  return entries
+    .filter((entry) => entry.isDirectory())
+    .map((entry) => entry.name)
+    .filter((name) => !shouldSkipDir(name))
+    .map((name) => path.join(dir, name));
+}
+
+function enqueueChildren(options: {
+  queue: Array<{ dir: string; depth: number }>;
+  visited: Set<string>;
+  children: string[];
+  depth: number;
+  maxEntries: number;
+}): void {
+  const { queue, visited, children, depth, maxEntries } = options;
+  for (const child of children) {
+    if (visited.has(child)) {
+      continue;
+    }
+    if (queue.length >= maxEntries) {
+      break;
+    }
+    queue.push({ dir: child, depth: depth + 1 });
+  }
+}
+
+function matchGlob(patternSegments: string[], pathSegments: string[]): boolean {
+  if (patternSegments.length === 0) {
+    return pathSegments.length === 0;
+  }
+  const [pattern, ...rest] = patternSegments;
+  if (pattern === "**") {
+    if (matchGlob(rest, pathSegments)) {
+      return true;
+    }
+    return pathSegments.some((_, index) =>
+      matchGlob(rest, pathSegments.slice(index + 1))
+    );
+  }
+  if (pattern.includes("*")) {
+    if (pathSegments.length === 0) {
+      return false;
+    }
+    const regex = new RegExp(
+      `^${pattern
+        .split("*")
+        .map((part) => part.replace(regexSpecialRegex, "\\$&"))
+        .join(".*")}$`,
+      "i"
+    );
+    if (!regex.test(pathSegments[0] ?? "")) {
+      return false;
+    }
+    return matchGlob(rest, pathSegments.slice(1));
+  }
+  if (pathSegments.length === 0) {
+    return false;
+  }
+  if (pattern !== pathSegments[0]) {
+    return false;
+  }
+  return matchGlob(rest, pathSegments.slice(1));
+}
+
+async function hasPackageJson(dir: string): Promise<boolean> {
+  try {
+    await fs.access(path.join(dir, "package.json"));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function existsDir(dir: string): Promise<boolean> {
+  try {
+    const stat = await fs.stat(dir);
+    return stat.isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+function shouldSkipDir(name: string): boolean {
+  return (
+    name.startsWith(".") ||
+    name === "node_modules" ||
+    name === "dist" ||
+    name === "build" ||
+    name === "out" ||
+    name === "coverage"
+  );
+}
+
+function normalizeWorkspacePattern(pattern: string): string {
+  return pattern
+    .replaceAll("\\", "/")
+    .replace(leadingDotSlashRegex, "")
+    .replace(trailingSlashRegex, "");
+}
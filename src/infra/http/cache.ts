@@ -0,0 +1,188 @@
+import { createHash } from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+
+import type { HttpClient, HttpRequestInit } from "./client";
+
+export type HttpCacheOptions = {
+  dir: string;
+  ttlMs?: number;
+  probeTtlMs?: number;
+  now?: () => number;
+};
+
+type HttpCacheEntry = {
+  url: string;
+  status: number;
+  headers: Record<string, string>;
+  storedAt: number;
+  hasBody: boolean;
+};
+
+const defaultTtlMs = 60 * 60 * 1000;
+const defaultProbeTtlMs = 24 * 60 * 60 * 1000;
+const cachedHeaderNames = [
+  "content-type",
+  "etag",
+  "last-modified",
+  "location",
+] as const;
+
+export const defaultHttpCacheDir = path.join(
+  "node_modules",
+  ".cache",
+  "next-updates"
+);
+
+// Persists GET/HEAD responses on disk. Fresh entries (within the TTL) are
+// served without a request; stale ones are revalidated with
+// If-None-Match/If-Modified-Since so a 304 only refreshes the timestamp.
+export function createCachingHttpClient(
+  inner: HttpClient,
+  options: HttpCacheOptions
+): HttpClient {
+  const ttlMs = options.ttlMs ?? defaultTtlMs;
+  const probeTtlMs = options.probeTtlMs ?? defaultProbeTtlMs;
+  const now = options.now ?? Date.now;
+
+  return {
+    async request(url, init = {}) {
+      const method = init.method ?? "GET";
+      if (method === "POST") {
+        return inner.request(url, init);
+      }
+
+      const key = buildCacheKey(url, init);
+      const cached = await readCacheEntry(options.dir, key);
+      const ttl = method === "HEAD" ? probeTtlMs : ttlMs;
+      if (cached && now() - cached.entry.storedAt < ttl) {
+        return toResponse(cached.entry, cached.body);
+      }
+
+      const response = await inner.request(url, {
+        ...init,
+        headers: buildConditionalHeaders(init, cached?.entry),
+      });
+      if (response.status === 304 && cached) {
+        const refreshed = { ...cached.entry, storedAt: now() };
+        await writeCacheEntry(options.dir, key, refreshed, cached.body);
+        return toResponse(refreshed, cached.body);
+      }
+      if (!isCacheableStatus(response.status)) {
+        return response;
+      }
+
+      const body =
+        method === "HEAD" ? null : Buffer.from(await response.arrayBuffer());
+      const entry: HttpCacheEntry = {
+        url,
+        status: response.status,
+        headers: pickCachedHeaders(response.headers),
+        storedAt: now(),
+        hasBody: body !== null,
+      };
+      await writeCacheEntry(options.dir, key, entry, body);
+      return toResponse(entry, body);
+    },
+  };
+}
+
+function buildConditionalHeaders(
+  init: HttpRequestInit,
+  cached: HttpCacheEntry | undefined
+): Record<string, string> {
+  const headers = { ...init.headers };
+  if (cached?.headers.etag) {
+    headers["If-None-Match"] = cached.headers.etag;
+  }
+  if (cached?.headers["last-modified"]) {
+    headers["If-Modified-Since"] = cached.headers["last-modified"];
+  }
+  return headers;
+}
+
+function buildCacheKey(url: string, init: HttpRequestInit): string {
+  // Credentials are part of the key (never stored) so private registries
+  // don't share entries across tokens.
+  const authorization = init.headers?.Authorization ?? "";
+  return createHash("sha256")
+    .update(
+      [
+        init.method ?? "GET",
+        init.redirect ?? "follow",
+        url,
+        authorization,
+      ].join("\n")
+    )
+    .digest("hex");
+}
+
+async function readCacheEntry(
+  dir: string,
+  key: string
+): Promise<{ entry: HttpCacheEntry; body: Buffer | null } | null> {
+  try {
+    const raw = await fs.readFile(path.join(dir, `${key}.json`), "utf8");
+    const entry = JSON.parse(raw) as HttpCacheEntry;
+    if (
+      typeof entry.status !== "number" ||
+      typeof entry.storedAt !== "number"
+    ) {
+      return null;
+    }
+    const body = entry.hasBody
+      ? await fs.readFile(path.join(dir, `${key}.body`))
+      : null;
+    return { entry, body };
+  } catch {
+    return null;
+  }
+}
+
+async function writeCacheEntry(
+  dir: string,
+  key: string,
+  entry: HttpCacheEntry,
+  body: Buffer | null
+): Promise<void> {
+  try {
+    await fs.mkdir(dir, { recursive: true });
+    if (body) {
+      await fs.writeFile(path.join(dir, `${key}.body`), body);
+    }
+    await fs.writeFile(path.join(dir, `${key}.json`), JSON.stringify(entry));
+  } catch {
+    // A read-only or missing cache dir must never break the report.
+  }
+}
+
+function toResponse(entry: HttpCacheEntry, body: Buffer | null): Response {
+  const payload =
+    body && !isNullBodyStatus(entry.status) ? new Uint8Array(body) : null;
+  return new Response(payload, {
+    status: entry.status,
+    headers: entry.headers,
+  });
+}
+
+function pickCachedHeaders(headers: Headers): Record<string, string> {
+  const picked: Record<string, string> = {};
+  for (const name of cachedHeaderNames) {
+    const value = headers.get(name);
+    if (value !== null) {
+      picked[name] = value;
+    }
+  }
+  return picked;
+}
+
+function isNullBodyStatus(status: number): boolean {
+  return status === 204 || status === 205 || status === 304;
+}
+
+function isCacheableStatus(status: number): boolean {
+  if (status >= 200 && status < 400) {
+    return status !== 304;
+  }
+  return status === 404 || status === 410;
+}
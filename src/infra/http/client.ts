@@ -0,0 +1,17 @@
+export type HttpRequestInit = {
+  method?: "GET" | "HEAD" | "POST";
+  headers?: Record<string, string>;
+  body?: string;
+  redirect?: "follow" | "manual";
+  signal?: AbortSignal;
+};
+
+export type HttpClient = {
+  request(url: string, init?: HttpRequestInit): Promise<Response>;
+};
+
+export function createFetchHttpClient(): HttpClient {
+  return {
+    request: (url, init = {}) => fetch(url, init),
+  };
+}
@@ -0,0 +1,70 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+
+import type { HttpClient } from "./client";
+
+type FixtureResponse = {
+  status: number;
+  headers?: Record<string, string>;
+  body?: string;
+};
+
+type FixtureResponses = Record<string, FixtureResponse>;
+
+const fixtureResponsesFile = "http.json";
+
+// Serves recorded responses from <dir>/http.json, keyed by URL; anything
+// missing from the recording answers 404 so runs never hit the network.
+export function createFixtureHttpClient(dir: string): HttpClient {
+  let responsesPromise: Promise<FixtureResponses> | null = null;
+
+  return {
+    async request(url, init = {}) {
+      responsesPromise ??= readFixtureResponses(
+        path.resolve(dir, fixtureResponsesFile)
+      );
+      const responses = await responsesPromise;
+      const recorded = responses[url];
+      if (!recorded) {
+        return new Response(null, { status: 404 });
+      }
+      const body =
+        init.method === "HEAD" || isNullBodyStatus(recorded.status)
+          ? null
+          : (recorded.body ?? "");
+      return new Response(body, {
+        status: recorded.status,
+        headers: recorded.headers,
+      });
+    },
+  };
+}
+
+async function readFixtureResponses(
+  filePath: string
+): Promise<FixtureResponses> {
+  try {
+    const raw = await fs.readFile(filePath, "utf8");
+    const parsed: unknown = JSON.parse(raw);
+    if (!isRecord(parsed)) {
+      return {};
+    }
+    const responses: FixtureResponses = {};
+    for (const [url, entry] of Object.entries(parsed)) {
+      if (isRecord(entry) && typeof entry.status === "number") {
+        responses[url] = entry as FixtureResponse;
+      }
+    }
+    return responses;
+  } catch {
+    return {};
+  }
+}
+
+function isNullBodyStatus(status: number): boolean {
+  return status === 204 || status === 205 || status === 304;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
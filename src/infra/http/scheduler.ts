@@ -0,0 +1,103 @@
+import { setTimeout as delay } from "node:timers/promises";
+
+import type { HttpClient } from "./client";
+
+export type HttpSchedulerOptions = {
+  concurrency?: number;
+  timeoutMs?: number;
+  retries?: number;
+  backoffMs?: number;
+  sleep?: (ms: number) => Promise<void>;
+};
+
+export const defaultHttpConcurrency = 8;
+export const defaultHttpTimeoutMs = 15_000;
+const defaultRetries = 2;
+const defaultBackoffMs = 500;
+const maxRetryAfterMs = 30_000;
+
+// Shared by every outbound request: caps in-flight requests, aborts each
+// attempt after the timeout and retries 429/5xx/network failures with
+// exponential backoff (honoring Retry-After when the server sends one).
+export function createScheduledHttpClient(
+  inner: HttpClient,
+  options: HttpSchedulerOptions = {}
+): HttpClient {
+  const concurrency = Math.max(
+    1,
+    options.concurrency ?? defaultHttpConcurrency
+  );
+  const timeoutMs = options.timeoutMs ?? defaultHttpTimeoutMs;
+  const retries = options.retries ?? defaultRetries;
+  const backoffMs = options.backoffMs ?? defaultBackoffMs;
+  const sleep = options.sleep ?? ((ms: number) => delay(ms));
+  const limit = createLimiter(concurrency);
+
+  return {
+    async request(url, init = {}) {
+      for (let attempt = 0; ; attempt += 1) {
+        const isLastAttempt = attempt >= retries;
+        try {
+          const response = await limit(() =>
+            inner.request(url, {
+              ...init,
+              signal: AbortSignal.timeout(timeoutMs),
+            })
+          );
+          if (isLastAttempt || !isRetryableStatus(response.status)) {
+            return response;
+          }
+          await sleep(resolveRetryDelay(response, attempt, backoffMs));
+        } catch (error: unknown) {
+          if (isLastAttempt) {
+            throw error;
+          }
+          await sleep(backoffMs * 2 ** attempt);
+        }
+      }
+    },
+  };
+}
+
+function createLimiter(
+  concurrency: number
+): <T>(work: () => Promise<T>) => Promise<T> {
+  let active = 0;
+  const waiting: (() => void)[] = [];
+
+  return async (work) => {
+    if (active >= concurrency) {
+      await new Promise<void>((resolve) => waiting.push(resolve));
+    } else {
+      active += 1;
+    }
+    try {
+      return await work();
+    } finally {
+      // Hand the slot straight to the next waiter, so a caller arriving
+      // before it resumes cannot take the slot as well.
+      const next = waiting.shift();
+      if (next) {
+        next();
+      } else {
+        active -= 1;
+      }
+    }
+  };
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+function resolveRetryDelay(
+  response: Response,
+  attempt: number,
+  backoffMs: number
+): number {
+  const retryAfter = Number(response.headers.get("retry-after"));
+  if (Number.isFinite(retryAfter) && retryAfter > 0) {
+    return Math.min(retryAfter * 1000, maxRetryAfterMs);
+  }
+  return backoffMs * 2 ** attempt;
+}
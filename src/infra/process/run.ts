@@ -0,0 +1,35 @@
+import { spawn } from "node:child_process";
+
+export type CommandResult = {
+  exitCode: number;
+  output: string;
+};
+
+export type CommandRunner = (
+  command: string,
+  args: readonly string[],
+  options: { cwd: string }
+) => Promise<CommandResult>;
+
+// Runs a command to completion and captures stdout and stderr interleaved.
+// Spawn failures (missing binary) resolve with exit code 127.
+export const runCommand: CommandRunner = (command, args, options) =>
+  new Promise((resolve) => {
+    const chunks: string[] = [];
+    const child = spawn(command, [...args], {
+      cwd: options.cwd,
+      shell: process.platform === "win32",
+      stdio: ["ignore", "pipe", "pipe"],
+    });
+    child.stdout.on("data", (chunk: Buffer) => chunks.push(chunk.toString()));
+    child.stderr.on("data", (chunk: Buffer) => chunks.push(chunk.toString()));
+    child.on("error", (error) => {
+      resolve({
+        exitCode: 127,
+        output: `${chunks.join("")}${error.message}\n`,
+      });
+    });
+    child.on("close", (code) => {
+      resolve({ exitCode: code ?? 1, output: chunks.join("") });
+    });
+  });
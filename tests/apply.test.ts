@@ -0,0 +1,261 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+
+import { expect, test } from "vitest";
+
+import { bisectApplyChanges } from "../src/core/apply/bisect";
+import {
+  formatApplyDiff,
+  planApplyChanges,
+  selectApplyChanges,
+  writeApplyEdits,
+} from "../src/core/apply/plan";
+import {
+  partitionApplyChanges,
+  verifyApplyGroups,
+} from "../src/core/apply/verify";
+import { resolveTargetRange } from "../src/core/candidates/ranges";
+import type { NextUpdatesReport } from "../src/core/report/types";
+
+const report: NextUpdatesReport = {
+  generatedAt: "2025-01-01T00:00:00.000Z",
+  options: {
+    scopeRequested: "all",
+    scopeEffective: "all",
+    target: "latest",
+    dep: "all",
+    risk: "all",
+  },
+  packages: {
+    "packages/app/package.json": {
+      dependencies: {
+        react: {
+          current: { range: "~17.0.2", version: "17.0.2" },
+          target: { range: "^18.3.1", version: "18.3.1" },
+          versionWindow: {
+            delta: { major: 1, minor: 0, patch: 0, prerelease: 0 },
+          },
+          evidence: null,
+        },
+      },
+      devDependencies: {
+        vitest: {
+          current: { range: "^1.0.0", version: "1.0.0" },
+          target: { range: "^2.0.0", version: "2.0.0" },
+          versionWindow: {
+            delta: { major: 1, minor: 0, patch: 0, prerelease: 0 },
+          },
+          evidence: null,
+        },
+      },
+    },
+  },
+};
+
+test("resolveTargetRange keeps the existing prefix style", () => {
+  expect(resolveTargetRange("~17.0.2", "^18.3.1")).toBe("~18.3.1");
+  expect(resolveTargetRange("17.0.2", "^18.3.1")).toBe("18.3.1");
+  expect(resolveTargetRange(">=1.0.0", "^2.0.0")).toBe(">=2.0.0");
+  expect(resolveTargetRange("^1.0.0 || ^2.0.0", "^3.0.0")).toBe("^3.0.0");
+});
+
+test("apply rewrites only the selected range and preserves formatting", async () => {
+  const cwd = await fs.mkdtemp(path.join(os.tmpdir(), "next-updates-"));
+  const packageFile = path.join(cwd, "packages/app/package.json");
+  await fs.mkdir(path.dirname(packageFile), { recursive: true });
+  const original = [
+    "{",
+    '    "name": "app",',
+    '    "dependencies": { "react": "~17.0.2" },',
+    '    "devDependencies": {',
+    '        "vitest": "^1.0.0"',
+    "    },",
+    '    "peerDependencies": { "react": "~17.0.2" }',
+    "}",
+    "",
+  ].join("\n");
+  await fs.writeFile(packageFile, original);
+
+  const { changes, unmatched } = selectApplyChanges(report, [
+    "packages/app/package.json:react",
+    "left-pad",
+  ]);
+  expect(unmatched).toEqual(["left-pad"]);
+
+  const plan = await planApplyChanges(cwd, changes);
+  expect(plan.skipped).toEqual([]);
+  expect(formatApplyDiff(plan.edits)).toBe(
+    [
+      "--- a/packages/app/package.json",
+      "+++ b/packages/app/package.json",
+      "@@ -3 +3 @@",
+      '-    "dependencies": { "react": "~17.0.2" },',
+      '+    "dependencies": { "react": "~18.3.1" },',
+      "",
+    ].join("\n")
+  );
+
+  await writeApplyEdits(cwd, plan.edits);
+  expect(await fs.readFile(packageFile, "utf8")).toBe(
+    original.replace(
+      '"dependencies": { "react": "~17.0.2" }',
+      '"dependencies": { "react": "~18.3.1" }'
+    )
+  );
+});
+
+test("apply skips ranges that changed since the report", async () => {
+  const cwd = await fs.mkdtemp(path.join(os.tmpdir(), "next-updates-"));
+  const packageFile = path.join(cwd, "packages/app/package.json");
+  await fs.mkdir(path.dirname(packageFile), { recursive: true });
+  await fs.writeFile(
+    packageFile,
+    JSON.stringify({ devDependencies: { vitest: "^1.5.0" } }, null, 2)
+  );
+
+  const { changes } = selectApplyChanges(report, ["vitest"]);
+  const plan = await planApplyChanges(cwd, changes);
+  expect(plan.edits).toEqual([]);
+  expect(plan.skipped.map((skip) => skip.reason)).toEqual([
+    "range is now ^1.5.0, expected ^1.0.0",
+  ]);
+});
+
+test("verifyApplyGroups keeps passing groups and rolls back failing ones", async () => {
+  const cwd = await fs.mkdtemp(path.join(os.tmpdir(), "next-updates-"));
+  const packageFile = path.join(cwd, "packages/app/package.json");
+  await fs.mkdir(path.dirname(packageFile), { recursive: true });
+  const original = `${JSON.stringify(
+    {
+      scripts: { test: "vitest run" },
+      dependencies: { react: "~17.0.2" },
+      devDependencies: { vitest: "^1.0.0" },
+    },
+    null,
+    2
+  )}\n`;
+  await fs.writeFile(packageFile, original);
+  await fs.writeFile(path.join(cwd, "pnpm-lock.yaml"), "lockfileVersion: 9\n");
+
+  const commands: string[] = [];
+  const { changes } = selectApplyChanges(report, []);
+  const verification = await verifyApplyGroups({
+    cwd,
+    groups: partitionApplyChanges(changes, []),
+    packageManager: "pnpm",
+    scripts: ["typecheck", "test"],
+    runner: async (command, args, options) => {
+      commands.push(
+        `${path.relative(cwd, options.cwd) || "."}: ${command} ${args.join(" ")}`
+      );
+      if (args[0] === "install") {
+        await fs.writeFile(path.join(cwd, "pnpm-lock.yaml"), "changed\n");
+      }
+      const manifest = await fs.readFile(packageFile, "utf8");
+      const failing = args[1] === "test" && manifest.includes("^2.0.0");
+      return { exitCode: failing ? 1 : 0, output: "" };
+    },
+  });
+
+  expect(verification.map((result) => [result.groupId, result.status])).toEqual(
+    [
+      ["react", "passed"],
+      ["vitest", "failed"],
+    ]
+  );
+  expect(commands).toEqual([
+    ".: pnpm install --no-frozen-lockfile",
+    "packages/app: pnpm run test",
+    ".: pnpm install --no-frozen-lockfile",
+    "packages/app: pnpm run test",
+    ".: pnpm install --no-frozen-lockfile",
+  ]);
+  const manifest = JSON.parse(await fs.readFile(packageFile, "utf8"));
+  expect(manifest.dependencies.react).toBe("~18.3.1");
+  expect(manifest.devDependencies.vitest).toBe("^1.0.0");
+});
+
+test("bisectApplyChanges isolates the interacting pair and restores the tree", async () => {
+  const cwd = await fs.mkdtemp(path.join(os.tmpdir(), "next-updates-"));
+  const packageFile = path.join(cwd, "package.json");
+  const names = ["a", "b", "c", "d", "e"];
+  const original = `${JSON.stringify(
+    {
+      scripts: { test: "vitest run" },
+      dependencies: Object.fromEntries(names.map((name) => [name, "^1.0.0"])),
+    },
+    null,
+    2
+  )}\n`;
+  await fs.writeFile(packageFile, original);
+
+  const result = await bisectApplyChanges({
+    cwd,
+    changes: names.map((packageName) => ({
+      packageFile: "package.json",
+      dependencyType: "dependencies",
+      packageName,
+      fromRange: "^1.0.0",
+      toRange: "^2.0.0",
+    })),
+    packageManager: "npm",
+    scripts: ["test"],
+    runner: async (_command, args) => {
+      const manifest = JSON.parse(await fs.readFile(packageFile, "utf8"));
+      const upgraded = (name: string) =>
+        manifest.dependencies[name] === "^2.0.0";
+      const failing = args[1] === "test" && upgraded("b") && upgraded("d");
+      return { exitCode: failing ? 1 : 0, output: "" };
+    },
+  });
+
+  expect(result.status).toBe("isolated");
+  expect(result.failing).toEqual([
+    { packageFile: "package.json", packageName: "b" },
+    { packageFile: "package.json", packageName: "d" },
+  ]);
+  expect(await fs.readFile(packageFile, "utf8")).toBe(original);
+});
+
+test("bisectApplyChanges blames no candidate when the untouched tree fails", async () => {
+  const cwd = await fs.mkdtemp(path.join(os.tmpdir(), "next-updates-"));
+  await fs.writeFile(
+    path.join(cwd, "package.json"),
+    `${JSON.stringify(
+      {
+        scripts: { test: "vitest run" },
+        dependencies: { a: "^1.0.0", b: "^1.0.0" },
+      },
+      null,
+      2
+    )}\n`
+  );
+
+  const result = await bisectApplyChanges({
+    cwd,
+    changes: ["a", "b"].map((packageName) => ({
+      packageFile: "package.json",
+      dependencyType: "dependencies",
+      packageName,
+      fromRange: "^1.0.0",
+      toRange: "^2.0.0",
+    })),
+    packageManager: "npm",
+    scripts: ["test"],
+    runner: async (_command, args) => ({
+      exitCode: args[1] === "test" ? 1 : 0,
+      output: "",
+    }),
+  });
+
+  expect(result).toEqual({
+    status: "baseline-failed",
+    candidates: [
+      { packageFile: "package.json", packageName: "a" },
+      { packageFile: "package.json", packageName: "b" },
+    ],
+    failing: [],
+    runs: 1,
+  });
+});
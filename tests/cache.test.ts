@@ -0,0 +1,63 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+
+import { expect, test } from "vitest";
+
+import { createCachingHttpClient } from "../src/infra/http/cache";
+import type { HttpClient, HttpRequestInit } from "../src/infra/http/client";
+
+function createRecordingClient(respond: (init: HttpRequestInit) => Response): {
+  client: HttpClient;
+  calls: HttpRequestInit[];
+} {
+  const calls: HttpRequestInit[] = [];
+  return {
+    calls,
+    client: {
+      request(_url, init = {}) {
+        calls.push(init);
+        return Promise.resolve(respond(init));
+      },
+    },
+  };
+}
+
+test("createCachingHttpClient serves fresh entries from disk", async () => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "next-updates-"));
+  const { client, calls } = createRecordingClient(
+    () => new Response('{"name":"lodash"}', { status: 200 })
+  );
+
+  const first = createCachingHttpClient(client, { dir });
+  await first.request("https://registry.npmjs.org/lodash");
+  const second = createCachingHttpClient(client, { dir });
+  const response = await second.request("https://registry.npmjs.org/lodash");
+
+  expect(calls).toHaveLength(1);
+  expect(await response.json()).toEqual({ name: "lodash" });
+});
+
+test("createCachingHttpClient revalidates stale entries with ETag", async () => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "next-updates-"));
+  let now = 0;
+  const { client, calls } = createRecordingClient((init) =>
+    init.headers?.["If-None-Match"] === '"v1"'
+      ? new Response(null, { status: 304 })
+      : new Response("changelog", { status: 200, headers: { etag: '"v1"' } })
+  );
+  const cached = createCachingHttpClient(client, {
+    dir,
+    ttlMs: 1000,
+    now: () => now,
+  });
+
+  await cached.request("https://example.com/CHANGELOG.md");
+  now = 5000;
+  const response = await cached.request("https://example.com/CHANGELOG.md");
+
+  expect(calls).toHaveLength(2);
+  expect(calls[1]?.headers?.["If-None-Match"]).toBe('"v1"');
+  expect(response.status).toBe(200);
+  expect(await response.text()).toBe("changelog");
+});
@@ -0,0 +1,167 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+
+import { expect, test } from "vitest";
+
+import { buildCandidates, widenPeerRange } from "../src/core/candidates/build";
+import {
+  buildCatalogCandidates,
+  readCatalogUsage,
+} from "../src/core/candidates/catalogs";
+import { createRunOptions, ncuPassesForDep } from "../src/core/ncu/run";
+import type { NextUpdatesCandidateBase } from "../src/core/report/types";
+
+test("buildCandidates reads the section matching --dep and widens peers", async () => {
+  const cwd = await fs.mkdtemp(path.join(os.tmpdir(), "next-updates-"));
+  await fs.writeFile(
+    path.join(cwd, "package.json"),
+    JSON.stringify({
+      devDependencies: { react: "^18.2.0" },
+      optionalDependencies: { fsevents: "^2.3.2" },
+      peerDependencies: {
+        react: "^17.0.0",
+        "react-dom": "^18.0.0",
+        scheduler: "^0.23.0",
+      },
+    })
+  );
+  const context = {
+    installedVersionLookup: () => null,
+    targetVersions: new Map([
+      ["react", "19.0.0"],
+      ["react-dom", "18.3.1"],
+      ["fsevents", "2.3.3"],
+      ["scheduler", "0.25.0"],
+    ]),
+  };
+
+  const peers = await buildCandidates(
+    cwd,
+    { react: "^19.0.0", "react-dom": "^18.3.1" },
+    { ...context, dep: "peerDependencies" }
+  );
+  expect(peers).toEqual([
+    {
+      packageFile: "package.json",
+      dependencyType: "peerDependencies",
+      packageName: "react",
+      current: { range: "^17.0.0", version: null },
+      target: { range: "^17.0.0 || ^19.0.0", version: "19.0.0" },
+    },
+  ]);
+
+  // ncu merges a same-named peer into the dev result, so "all" runs peers in
+  // a pass of their own and each section yields its own candidate.
+  const passResults: Record<string, Record<string, string>> = {
+    all: { react: "^19.0.0", fsevents: "^2.3.3" },
+    peerDependencies: { react: "^19.0.0", scheduler: "^0.25.0" },
+  };
+  const all: NextUpdatesCandidateBase[] = [];
+  for (const dep of ncuPassesForDep("all")) {
+    all.push(
+      ...(await buildCandidates(cwd, passResults[dep], { ...context, dep }))
+    );
+  }
+  expect(
+    all.map((candidate) => [
+      candidate.packageName,
+      candidate.dependencyType,
+      candidate.target.range,
+    ])
+  ).toEqual([
+    ["react", "devDependencies", "^19.0.0"],
+    ["fsevents", "optionalDependencies", "^2.3.3"],
+    ["react", "peerDependencies", "^17.0.0 || ^19.0.0"],
+    ["scheduler", "peerDependencies", "^0.23.0 || ^0.25.0"],
+  ]);
+});
+
+test("widenPeerRange appends to existing unions and keeps odd ranges", () => {
+  expect(widenPeerRange("^16.8.0 || ^17.0.0", "^18.0.0")).toBe(
+    "^16.8.0 || ^17.0.0 || ^18.0.0"
+  );
+  expect(widenPeerRange("workspace:*", "^2.0.0")).toBe("^2.0.0");
+});
+
+test("createRunOptions maps dependency types to ncu dep values", () => {
+  const cwd = process.cwd();
+  expect(createRunOptions(cwd, "root", "latest", "all").dep).toEqual([
+    "prod",
+    "dev",
+    "optional",
+  ]);
+  expect(
+    createRunOptions(cwd, "root", "latest", "peerDependencies").dep
+  ).toEqual(["peer"]);
+});
+
+test("catalog entries are reported once with every consuming workspace", async () => {
+  const cwd = await fs.mkdtemp(path.join(os.tmpdir(), "next-updates-"));
+  await fs.writeFile(
+    path.join(cwd, "pnpm-workspace.yaml"),
+    [
+      "packages:",
+      "  - packages/*",
+      "  - '!packages/ignored'",
+      "catalog:",
+      "  react: ^18.2.0",
+      "  unused: ^1.0.0",
+      "catalogs:",
+      "  legacy:",
+      "    react: ^17.0.2",
+    ].join("\n")
+  );
+  const workspaces = {
+    ".": { devDependencies: { react: "catalog:" } },
+    "packages/app": { dependencies: { react: "catalog:default" } },
+    "packages/old": { dependencies: { react: "catalog:legacy" } },
+    "packages/ignored": { dependencies: { react: "catalog:" } },
+  };
+  for (const [dir, packageJson] of Object.entries(workspaces)) {
+    await fs.mkdir(path.join(cwd, dir), { recursive: true });
+    await fs.writeFile(
+      path.join(cwd, dir, "package.json"),
+      JSON.stringify(packageJson)
+    );
+  }
+
+  const usage = await readCatalogUsage(cwd, "all", "all");
+  expect(
+    usage.map((catalog) => [
+      catalog.name,
+      catalog.entries,
+      Object.fromEntries(catalog.consumers),
+    ])
+  ).toEqual([
+    ["legacy", { react: "^17.0.2" }, { react: ["packages/old"] }],
+    ["default", { react: "^18.2.0" }, { react: [".", "packages/app"] }],
+  ]);
+  expect(
+    (await readCatalogUsage(cwd, "workspaces", "devDependencies")).length
+  ).toBe(0);
+
+  const [defaultCatalog] = usage.filter(
+    (catalog) => catalog.name === "default"
+  );
+  expect(
+    buildCatalogCandidates(
+      defaultCatalog,
+      { react: "^19.0.0" },
+      {
+        installedVersionLookup: (packageFile) =>
+          packageFile === "package.json" ? "18.2.0" : null,
+        targetVersions: new Map([["react", "19.0.0"]]),
+      }
+    )
+  ).toEqual([
+    {
+      packageFile: "pnpm-workspace.yaml#default",
+      dependencyType: "catalog",
+      packageName: "react",
+      current: { range: "^18.2.0", version: "18.2.0" },
+      target: { range: "^19.0.0", version: "19.0.0" },
+      catalog: { name: "default", consumers: [".", "packages/app"] },
+    },
+  ]);
+});
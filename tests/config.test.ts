@@ -0,0 +1,153 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+
+import { expect, test } from "vitest";
+
+import { loadNextUpdatesConfig } from "../src/config/file";
+import {
+  applyWorkspacePolicy,
+  createTargetPolicyResolver,
+} from "../src/core/candidates/policy";
+import { applyRunPolicy, createRunOptions } from "../src/core/ncu/run";
+import type { NextUpdatesCandidateBase } from "../src/core/report/types";
+
+test("loadNextUpdatesConfig prefers config files over package.json", async () => {
+  const cwd = await fs.mkdtemp(path.join(os.tmpdir(), "next-updates-"));
+  await fs.writeFile(
+    path.join(cwd, "package.json"),
+    JSON.stringify({ "next-updates": { target: "patch" } })
+  );
+  expect(await loadNextUpdatesConfig(cwd)).toEqual({
+    config: { target: "patch" },
+    source: "package.json#next-updates",
+    errors: [],
+  });
+
+  await fs.writeFile(
+    path.join(cwd, "next-updates.config.mjs"),
+    [
+      "export default {",
+      '  risk: "non-major",',
+      '  ignore: ["@types/*"],',
+      '  targets: { typescript: "minor" },',
+      '  workspaces: { exclude: ["packages/legacy-*"] },',
+      "};",
+    ].join("\n")
+  );
+  expect(await loadNextUpdatesConfig(cwd)).toEqual({
+    config: {
+      risk: "non-major",
+      ignore: ["@types/*"],
+      targets: { typescript: "minor" },
+      workspaces: { exclude: ["packages/legacy-*"] },
+    },
+    source: "next-updates.config.mjs",
+    errors: [],
+  });
+});
+
+test("loadNextUpdatesConfig reports invalid values", async () => {
+  const cwd = await fs.mkdtemp(path.join(os.tmpdir(), "next-updates-"));
+  await fs.writeFile(
+    path.join(cwd, "next-updates.config.json"),
+    JSON.stringify({
+      scope: "everything",
+      targets: { react: "newest" },
+      forges: { "git.example.com": "gitbucket" },
+    })
+  );
+
+  const loaded = await loadNextUpdatesConfig(cwd);
+  expect(loaded.config).toEqual({});
+  expect(loaded.errors).toEqual([
+    "Invalid scope in next-updates.config.json: everything.",
+    "Invalid targets in next-updates.config.json: expected package names mapped to latest|minor|patch.",
+    "Invalid forges in next-updates.config.json: expected hosts mapped to github|gitlab|bitbucket|gitea.",
+  ]);
+});
+
+test("applyRunPolicy resolves per-package targets and ignores", () => {
+  const runOptions = createRunOptions(process.cwd(), "root", "latest", "all");
+  applyRunPolicy(runOptions, "latest", {
+    ignore: ["@types/*"],
+    targets: { typescript: "minor", "@tanstack/*": "patch" },
+  });
+
+  const target = runOptions.target;
+  const reject = runOptions.reject;
+  if (typeof target !== "function" || typeof reject !== "function") {
+    throw new Error("expected function options");
+  }
+  expect(target("typescript", [])).toBe("minor");
+  expect(target("@tanstack/react-query", [])).toBe("patch");
+  expect(target("react", [])).toBe("latest");
+  expect(reject("@types/node", [])).toBe(true);
+  expect(reject("react", [])).toBe(false);
+});
+
+test("applyWorkspacePolicy filters workspace package files", () => {
+  const candidate = (packageFile: string): NextUpdatesCandidateBase => ({
+    packageFile,
+    dependencyType: "dependencies",
+    packageName: "react",
+    current: { range: "^18.0.0", version: "18.0.0" },
+    target: { range: "^19.0.0", version: null },
+  });
+
+  const kept = applyWorkspacePolicy(
+    [
+      candidate("package.json"),
+      candidate("packages/app/package.json"),
+      candidate("packages/legacy-ui/package.json"),
+      candidate("tools/cli/package.json"),
+    ],
+    { include: ["packages/*"], exclude: ["packages/legacy-*"] }
+  );
+  expect(kept.map((entry) => entry.packageFile)).toEqual([
+    "package.json",
+    "packages/app/package.json",
+  ]);
+});
+
+test("createTargetPolicyResolver applies the first matching rule", () => {
+  const resolver = createTargetPolicyResolver("latest", {
+    targets: { typescript: "minor" },
+    policies: [
+      { workspaces: ["packages/legacy"], target: "patch" },
+      {
+        workspaces: ["apps/*"],
+        dependencyTypes: ["dependencies"],
+        target: "minor",
+      },
+    ],
+  });
+
+  expect(resolver.contextual).toBe(true);
+  expect(resolver.targets).toEqual(["latest", "patch", "minor"]);
+  expect(
+    resolver.resolve({
+      packageName: "typescript",
+      dependencyType: "devDependencies",
+      workspace: "packages/legacy",
+    })
+  ).toEqual({ target: "patch", source: "policies[0]" });
+  expect(
+    resolver.resolve({
+      packageName: "react",
+      dependencyType: "dependencies",
+      workspace: "apps/web",
+    })
+  ).toEqual({ target: "minor", source: "policies[1]" });
+  expect(
+    resolver.resolve({
+      packageName: "vitest",
+      dependencyType: "devDependencies",
+      workspace: "apps/web",
+    })
+  ).toEqual({ target: "latest", source: "default" });
+  expect(resolver.resolve({ packageName: "typescript" })).toEqual({
+    target: "minor",
+    source: "targets.typescript",
+  });
+});
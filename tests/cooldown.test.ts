@@ -0,0 +1,154 @@
+import { expect, test } from "vitest";
+
+import { parseDuration } from "../src/config/duration";
+import { applyReleaseAge } from "../src/core/candidates/cooldown";
+import type { NpmRegistryPackage } from "../src/core/registry/types";
+import type { NextUpdatesCandidateBase } from "../src/core/report/types";
+
+const now = Date.parse("2025-06-15T00:00:00.000Z");
+
+const packument: NpmRegistryPackage = {
+  versions: { "1.0.0": {}, "1.1.0": {}, "1.2.0": {}, "2.0.0": {} },
+  time: {
+    created: "2024-01-01T00:00:00.000Z",
+    "1.0.0": "2024-01-01T00:00:00.000Z",
+    "1.1.0": "2025-05-01T00:00:00.000Z",
+    "1.2.0": "2025-06-12T00:00:00.000Z",
+    "2.0.0": "2025-06-14T00:00:00.000Z",
+  },
+};
+
+const registry = {
+  getPackage: async (packageName: string) =>
+    packageName === "widget" ? packument : null,
+  getDistTags: async () => null,
+};
+
+function createCandidate(
+  targetVersion: string,
+  policyTarget?: "minor"
+): NextUpdatesCandidateBase {
+  return {
+    packageFile: "package.json",
+    dependencyType: "dependencies",
+    packageName: "widget",
+    current: { range: "^1.0.0", version: "1.0.0" },
+    target: { range: `^${targetVersion}`, version: targetVersion },
+    ...(policyTarget
+      ? { policy: { target: policyTarget, source: "test" } }
+      : {}),
+  };
+}
+
+test("parseDuration accepts minutes, hours, days and weeks", () => {
+  expect(parseDuration("30m")).toBe(1_800_000);
+  expect(parseDuration("12h")).toBe(43_200_000);
+  expect(parseDuration("7")).toBe(604_800_000);
+  expect(parseDuration("2w")).toBe(1_209_600_000);
+  expect(parseDuration("soon")).toBeNull();
+});
+
+test("applyReleaseAge records publish time without a minimum age", async () => {
+  const [candidate] = await applyReleaseAge(
+    [createCandidate("2.0.0")],
+    registry,
+    {
+      target: "latest",
+      now,
+    }
+  );
+  expect(candidate?.target).toEqual({
+    range: "^2.0.0",
+    version: "2.0.0",
+    publishedAt: "2025-06-14T00:00:00.000Z",
+    ageDays: 1,
+  });
+});
+
+test("applyReleaseAge falls back to the newest release old enough", async () => {
+  const [latest] = await applyReleaseAge([createCandidate("2.0.0")], registry, {
+    target: "latest",
+    minAgeMs: 2 * 86_400_000,
+    now,
+  });
+  expect(latest?.target).toEqual({
+    range: "^1.2.0",
+    version: "1.2.0",
+    publishedAt: "2025-06-12T00:00:00.000Z",
+    ageDays: 3,
+    skippedForAge: "2.0.0",
+  });
+
+  const [minor] = await applyReleaseAge(
+    [createCandidate("1.2.0", "minor")],
+    registry,
+    { target: "latest", minAgeMs: 7 * 86_400_000, now }
+  );
+  expect(minor?.target.version).toBe("1.1.0");
+
+  const dropped = await applyReleaseAge([createCandidate("1.1.0")], registry, {
+    target: "latest",
+    minAgeMs: 365 * 86_400_000,
+    now,
+  });
+  expect(dropped).toEqual([]);
+});
+
+test("applyReleaseAge widens the fallback range of peer dependencies", async () => {
+  const reactPackument: NpmRegistryPackage = {
+    versions: { "17.0.2": {}, "18.2.0": {}, "18.3.1": {} },
+    time: {
+      "17.0.2": "2021-03-22T00:00:00.000Z",
+      "18.2.0": "2022-06-14T00:00:00.000Z",
+      "18.3.1": "2025-06-14T00:00:00.000Z",
+    },
+  };
+  const peer: NextUpdatesCandidateBase = {
+    packageFile: "package.json",
+    dependencyType: "peerDependencies",
+    packageName: "react",
+    current: { range: "^17.0.0", version: "17.0.2" },
+    target: { range: "^17.0.0 || ^18.3.1", version: "18.3.1" },
+  };
+
+  const [candidate] = await applyReleaseAge(
+    [peer],
+    { getPackage: async () => reactPackument, getDistTags: async () => null },
+    { target: "latest", minAgeMs: 7 * 86_400_000, now }
+  );
+  expect(candidate?.target).toEqual({
+    range: "^17.0.0 || ^18.2.0",
+    version: "18.2.0",
+    publishedAt: "2022-06-14T00:00:00.000Z",
+    ageDays: 1097,
+    skippedForAge: "18.3.1",
+  });
+});
+
+test("applyReleaseAge keeps the style of complex ranges for the fallback", async () => {
+  const withRanges = (current: string, target: string) => ({
+    ...createCandidate("2.0.0"),
+    current: { range: current, version: "1.0.0" },
+    target: { range: target, version: "2.0.0" },
+  });
+
+  const candidates = await applyReleaseAge(
+    [
+      withRanges("^0.9.0 || ^1.0.0", "^2.0.0"),
+      withRanges("1.x", "2.x"),
+      withRanges("1.0.x", "2.0.x"),
+    ],
+    registry,
+    { target: "latest", minAgeMs: 2 * 86_400_000, now }
+  );
+  expect(
+    candidates.map((candidate) => [
+      candidate.current.range,
+      candidate.target.range,
+      candidate.target.version,
+    ])
+  ).toEqual([
+    ["^0.9.0 || ^1.0.0", "^1.2.0", "1.2.0"],
+    ["1.x", "1.x", "1.2.0"],
+  ]);
+});
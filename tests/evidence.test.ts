@@ -0,0 +1,802 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+
+import { expect, test } from "vitest";
+
+import { detectBreakingChanges } from "../src/core/evidence/breaking";
+import { createEvidenceClients } from "../src/core/evidence/clients";
+import { collectCandidateEvidence } from "../src/core/evidence/collect";
+import {
+  checkCompatibility,
+  createCompatibilityRepoContext,
+} from "../src/core/evidence/compatibility";
+import { resolveForge } from "../src/core/evidence/forge";
+import { sliceChangelogSections } from "../src/core/evidence/notes";
+import { formatNextUpdatesPromptMarkdown } from "../src/core/report/format";
+
+async function writeFixture(
+  dir: string,
+  fileName: string,
+  contents: unknown
+): Promise<void> {
+  const filePath = path.join(dir, fileName);
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, JSON.stringify(contents, null, 2));
+}
+
+test("collectCandidateEvidence serves packuments and probes from fixtures", async () => {
+  const cwd = await fs.mkdtemp(path.join(os.tmpdir(), "next-updates-"));
+  await writeFixture(cwd, "fixtures/packuments/@acme/widget.json", {
+    repository: { type: "git", url: "git+https://github.com/acme/widget.git" },
+    versions: {
+      "1.0.0": {},
+      "1.1.0": {},
+      "2.0.0-beta.1": {},
+      "2.0.0": {},
+    },
+  });
+  await writeFixture(cwd, "fixtures/http.json", {
+    "https://github.com/acme/widget/releases/latest": {
+      status: 302,
+      headers: {
+        location: "https://github.com/acme/widget/releases/tag/v2.0.0",
+      },
+    },
+    "https://raw.githubusercontent.com/acme/widget/HEAD/CHANGELOG.md": {
+      status: 200,
+    },
+    "https://github.com/acme/widget/compare/v1.0.0...v2.0.0": { status: 200 },
+  });
+
+  const clients = await createEvidenceClients({ cwd, fixturesDir: "fixtures" });
+  const [result] = await collectCandidateEvidence(
+    [
+      {
+        packageName: "@acme/widget",
+        installedVersion: "1.0.0",
+        targetVersion: "2.0.0",
+      },
+    ],
+    clients
+  );
+
+  expect(result?.versionWindow.delta).toEqual({
+    major: 1,
+    minor: 1,
+    patch: 0,
+    prerelease: 1,
+  });
+  expect(result?.evidence?.links).toEqual({
+    compare: "https://github.com/acme/widget/compare/v1.0.0...v2.0.0",
+    npmDiffLink: "npm diff --diff @acme/widget@1.0.0 --diff @acme/widget@2.0.0",
+    releases: "https://github.com/acme/widget/releases",
+    changelog:
+      "https://raw.githubusercontent.com/acme/widget/HEAD/CHANGELOG.md",
+  });
+  expect(result?.evidence?.compareStrategy).toBe("tag-probe");
+});
+
+test("collectCandidateEvidence returns empty evidence when fixtures miss", async () => {
+  const cwd = await fs.mkdtemp(path.join(os.tmpdir(), "next-updates-"));
+  const clients = await createEvidenceClients({ cwd, fixturesDir: "fixtures" });
+  const [result] = await collectCandidateEvidence(
+    [
+      {
+        packageName: "lodash",
+        installedVersion: "4.17.0",
+        targetVersion: null,
+      },
+    ],
+    clients
+  );
+
+  expect(result?.evidence).toBeNull();
+  expect(result?.versionWindow.delta.major).toBe(0);
+});
+
+test("resolveForge maps repository URLs to built-in and configured forges", () => {
+  const hosts = { "git.example.com": "gitlab" } as const;
+  const resolve = (repository: string) =>
+    resolveForge(repository, hosts)?.repositoryUrl ?? null;
+
+  expect(resolve("acme/widget")).toBe("https://github.com/acme/widget");
+  expect(resolve("gitlab:acme/tools/widget")).toBe(
+    "https://gitlab.com/acme/tools/widget"
+  );
+  expect(resolve("git@bitbucket.org:acme/widget.git")).toBe(
+    "https://bitbucket.org/acme/widget"
+  );
+  expect(
+    resolve("git+ssh://git@git.example.com:2222/platform/ui/widget.git")
+  ).toBe("https://git.example.com/platform/ui/widget");
+  expect(
+    resolve("https://github.com/acme/widget/tree/main/packages/widget")
+  ).toBe("https://github.com/acme/widget");
+  expect(resolve("https://git.unknown.dev/acme/widget")).toBeNull();
+
+  const codeberg = resolveForge("https://codeberg.org/acme/widget");
+  expect(codeberg?.kind).toBe("gitea");
+  expect(codeberg?.rawFileUrl("CHANGELOG.md")).toBe(
+    "https://codeberg.org/acme/widget/raw/CHANGELOG.md"
+  );
+  expect(
+    resolveForge("bitbucket:acme/widget")?.compareUrl("v1.0.0", "v2.0.0")
+  ).toBe("https://bitbucket.org/acme/widget/branches/compare/v2.0.0%0Dv1.0.0");
+});
+
+test("collectCandidateEvidence links releases, changelog and compare on self-hosted GitLab", async () => {
+  const cwd = await fs.mkdtemp(path.join(os.tmpdir(), "next-updates-"));
+  await writeFixture(cwd, "fixtures/packuments/widget.json", {
+    repository: "git+https://git.example.com/platform/widget.git",
+    versions: { "1.0.0": {}, "2.0.0": {} },
+  });
+  const repo = "https://git.example.com/platform/widget";
+  await writeFixture(cwd, "fixtures/http.json", {
+    [`${repo}/-/releases/permalink/latest`]: {
+      status: 302,
+      headers: { location: `${repo}/-/releases/v2.0.0` },
+    },
+    [`${repo}/-/raw/HEAD/CHANGES.md`]: { status: 200 },
+    [`${repo}/-/compare/v1.0.0...v2.0.0`]: { status: 200 },
+  });
+
+  const clients = await createEvidenceClients({ cwd, fixturesDir: "fixtures" });
+  const [result] = await collectCandidateEvidence(
+    [
+      {
+        packageName: "widget",
+        installedVersion: "1.0.0",
+        targetVersion: "2.0.0",
+      },
+    ],
+    clients,
+    { forges: { "git.example.com": "gitlab" } }
+  );
+
+  expect(result?.evidence?.links).toEqual({
+    compare: `${repo}/-/compare/v1.0.0...v2.0.0`,
+    npmDiffLink: "npm diff --diff widget@1.0.0 --diff widget@2.0.0",
+    releases: `${repo}/-/releases`,
+    changelog: `${repo}/-/raw/HEAD/CHANGES.md`,
+  });
+  expect(result?.relations.repository).toBe(repo);
+});
+
+test("collectCandidateEvidence scopes changelog, compare and releases to repository.directory", async () => {
+  const cwd = await fs.mkdtemp(path.join(os.tmpdir(), "next-updates-"));
+  await writeFixture(cwd, "fixtures/packuments/@acme/widget.json", {
+    repository: {
+      type: "git",
+      url: "https://github.com/acme/tools.git",
+      directory: "packages/widget/",
+    },
+    versions: { "1.0.0": {}, "1.1.0": {} },
+  });
+  await writeFixture(cwd, "fixtures/http.json", {
+    "https://raw.githubusercontent.com/acme/tools/HEAD/CHANGELOG.md": {
+      status: 200,
+    },
+    "https://raw.githubusercontent.com/acme/tools/HEAD/packages/widget/CHANGELOG.md":
+      { status: 200 },
+    "https://github.com/acme/tools/compare/v1.0.0...v1.1.0": { status: 200 },
+    "https://github.com/acme/tools/compare/widget-v1.0.0...widget-v1.1.0": {
+      status: 200,
+    },
+    "https://api.github.com/repos/acme/tools/releases?per_page=100": {
+      status: 200,
+      body: JSON.stringify([
+        { tag_name: "gadget-v1.1.0", body: "Gadget release" },
+        { tag_name: "widget-v1.1.0", body: "Widget release" },
+        { tag_name: "v1.1.0", body: "Repo-wide release" },
+      ]),
+    },
+  });
+
+  const clients = await createEvidenceClients({ cwd, fixturesDir: "fixtures" });
+  const [result] = await collectCandidateEvidence(
+    [
+      {
+        packageName: "@acme/widget",
+        installedVersion: "1.0.0",
+        targetVersion: "1.1.0",
+      },
+    ],
+    clients,
+    { withNotes: true }
+  );
+
+  expect(result?.evidence?.links.changelog).toBe(
+    "https://raw.githubusercontent.com/acme/tools/HEAD/packages/widget/CHANGELOG.md"
+  );
+  expect(result?.evidence?.links.compare).toBe(
+    "https://github.com/acme/tools/compare/widget-v1.0.0...widget-v1.1.0"
+  );
+  expect(result?.evidence?.notes?.sections).toEqual([
+    { version: "1.1.0", body: "Widget release" },
+  ]);
+});
+
+test("collectCandidateEvidence reads exact tags and releases from the GitHub API", async () => {
+  const cwd = await fs.mkdtemp(path.join(os.tmpdir(), "next-updates-"));
+  await writeFixture(cwd, "fixtures/packuments/widget.json", {
+    repository: "github:acme/widget",
+    versions: { "1.0.0": {}, "1.5.0": {}, "2.0.0": {} },
+  });
+  await writeFixture(cwd, "fixtures/http.json", {
+    "https://api.github.com/graphql": {
+      status: 200,
+      body: JSON.stringify({
+        data: {
+          repository: {
+            q0: {
+              nodes: [{ name: "release-11.0.0" }, { name: "release-1.0.0" }],
+            },
+            q1: { nodes: [{ name: "release-2.0.0" }] },
+          },
+        },
+      }),
+    },
+    "https://api.github.com/repos/acme/widget/releases?per_page=100": {
+      status: 200,
+      body: JSON.stringify([
+        {
+          tag_name: "release-2.0.0",
+          name: "Widget 2",
+          published_at: "2025-03-01T10:00:00Z",
+          html_url: "https://github.com/acme/widget/releases/tag/release-2.0.0",
+          body: "Drops Node 18",
+        },
+        {
+          tag_name: "release-1.5.0",
+          name: "release-1.5.0",
+          published_at: "2025-02-01T10:00:00Z",
+          html_url: "https://github.com/acme/widget/releases/tag/release-1.5.0",
+          body: "",
+        },
+        { tag_name: "release-1.0.0", name: "Widget 1", body: "Initial" },
+      ]),
+    },
+  });
+
+  const clients = await createEvidenceClients({
+    cwd,
+    fixturesDir: "fixtures",
+    githubToken: "test-token",
+  });
+  const [result] = await collectCandidateEvidence(
+    [
+      {
+        packageName: "widget",
+        installedVersion: "1.0.0",
+        targetVersion: "2.0.0",
+      },
+    ],
+    clients
+  );
+
+  expect(result?.evidence?.links).toEqual({
+    compare:
+      "https://github.com/acme/widget/compare/release-1.0.0...release-2.0.0",
+    npmDiffLink: "npm diff --diff widget@1.0.0 --diff widget@2.0.0",
+    releases: "https://github.com/acme/widget/releases",
+  });
+  expect(result?.evidence?.tags).toEqual({
+    from: "release-1.0.0",
+    to: "release-2.0.0",
+  });
+  expect(result?.evidence?.compareStrategy).toBe("github-tags");
+  expect(
+    result?.evidence?.releases?.map((release) => [
+      release.tagName,
+      release.name,
+      release.publishedAt,
+    ])
+  ).toEqual([
+    ["release-2.0.0", "Widget 2", "2025-03-01T10:00:00Z"],
+    ["release-1.5.0", "release-1.5.0", "2025-02-01T10:00:00Z"],
+  ]);
+
+  const markdown = formatNextUpdatesPromptMarkdown({
+    generatedAt: "2025-01-01T00:00:00.000Z",
+    options: {
+      scopeRequested: "root",
+      scopeEffective: "root",
+      target: "latest",
+      dep: "all",
+      risk: "all",
+    },
+    packages: {
+      "package.json": {
+        dependencies: {
+          widget: {
+            current: { range: "^1.0.0", version: "1.0.0" },
+            target: { range: "^2.0.0", version: "2.0.0" },
+            ...result,
+          },
+        },
+      },
+    },
+  });
+  expect(markdown).toContain(
+    "  - Releases:\n    - `release-2.0.0` Widget 2 (2025-03-01)\n    - `release-1.5.0` (2025-02-01)"
+  );
+});
+
+test("collectCandidateEvidence checks conventional tag names beyond the GitHub search page", async () => {
+  const cwd = await fs.mkdtemp(path.join(os.tmpdir(), "next-updates-"));
+  await writeFixture(cwd, "fixtures/packuments/@acme/widget.json", {
+    repository: {
+      type: "git",
+      url: "https://github.com/acme/tools.git",
+      directory: "packages/widget",
+    },
+    versions: { "1.0.0": {}, "1.1.0": {} },
+  });
+  const otherTags = (version: string) => ({
+    nodes: Array.from({ length: 100 }, (_, index) => ({
+      name: `@acme/pkg-${index}@${version}`,
+    })),
+  });
+  await writeFixture(cwd, "fixtures/http.json", {
+    "https://api.github.com/graphql": {
+      status: 200,
+      body: JSON.stringify({
+        data: {
+          repository: {
+            q0: otherTags("1.0.0"),
+            q0_0: { name: "@acme/widget@1.0.0" },
+            q0_1: null,
+            q1: otherTags("1.1.0"),
+            q1_0: { name: "@acme/widget@1.1.0" },
+          },
+        },
+      }),
+    },
+  });
+
+  const clients = await createEvidenceClients({
+    cwd,
+    fixturesDir: "fixtures",
+    githubToken: "test-token",
+  });
+  const [result] = await collectCandidateEvidence(
+    [
+      {
+        packageName: "@acme/widget",
+        installedVersion: "1.0.0",
+        targetVersion: "1.1.0",
+      },
+    ],
+    clients
+  );
+
+  expect(result?.evidence?.tags).toEqual({
+    from: "@acme/widget@1.0.0",
+    to: "@acme/widget@1.1.0",
+  });
+  expect(result?.evidence?.compareStrategy).toBe("github-tags");
+});
+
+test("collectCandidateEvidence probes tags when the GitHub API finds none", async () => {
+  const cwd = await fs.mkdtemp(path.join(os.tmpdir(), "next-updates-"));
+  await writeFixture(cwd, "fixtures/packuments/widget.json", {
+    repository: "github:acme/widget",
+    versions: { "1.0.0": {}, "2.0.0": {} },
+  });
+  await writeFixture(cwd, "fixtures/http.json", {
+    "https://api.github.com/graphql": {
+      status: 200,
+      body: JSON.stringify({
+        data: { repository: { q0: { nodes: [] }, q1: { nodes: [] } } },
+      }),
+    },
+    "https://github.com/acme/widget/compare/v1.0.0...v2.0.0": { status: 200 },
+  });
+
+  const clients = await createEvidenceClients({
+    cwd,
+    fixturesDir: "fixtures",
+    githubToken: "test-token",
+  });
+  const [result] = await collectCandidateEvidence(
+    [
+      {
+        packageName: "widget",
+        installedVersion: "1.0.0",
+        targetVersion: "2.0.0",
+      },
+    ],
+    clients
+  );
+
+  expect(result?.evidence?.links.compare).toBe(
+    "https://github.com/acme/widget/compare/v1.0.0...v2.0.0"
+  );
+  expect(result?.evidence?.compareStrategy).toBe("tag-probe");
+});
+
+test("collectCandidateEvidence falls back to gitHead commits for untagged releases", async () => {
+  const cwd = await fs.mkdtemp(path.join(os.tmpdir(), "next-updates-"));
+  await writeFixture(cwd, "fixtures/packuments/widget.json", {
+    repository: "gitlab:acme/widget",
+    versions: {
+      "1.0.0": { gitHead: "1111111" },
+      "1.1.0": { gitHead: "2222222" },
+    },
+  });
+  await writeFixture(cwd, "fixtures/http.json", {
+    "https://gitlab.com/acme/widget/-/compare/1111111...2222222": {
+      status: 200,
+    },
+  });
+
+  const clients = await createEvidenceClients({ cwd, fixturesDir: "fixtures" });
+  const [result] = await collectCandidateEvidence(
+    [
+      {
+        packageName: "widget",
+        installedVersion: "1.0.0",
+        targetVersion: "1.1.0",
+      },
+    ],
+    clients
+  );
+
+  expect(result?.evidence?.links.compare).toBe(
+    "https://gitlab.com/acme/widget/-/compare/1111111...2222222"
+  );
+  expect(result?.evidence?.compareStrategy).toBe("git-head");
+});
+
+test("sliceChangelogSections keeps only the version window", () => {
+  const changelog = [
+    "# Changelog",
+    "",
+    "## [2.1.0] - 2025-02-01",
+    "",
+    "### Features",
+    "- Out of window",
+    "",
+    "## [2.0.0] - 2025-01-01",
+    "",
+    "### BREAKING CHANGES",
+    "- Dropped Node 16",
+    "",
+    "## 1.1.0",
+    "- Added `retry` option",
+    "",
+    "## 1.0.0",
+    "- Initial release",
+  ].join("\n");
+
+  const sections = sliceChangelogSections(changelog, "1.0.0", "2.0.0");
+
+  expect(sections).toEqual([
+    { version: "2.0.0", body: "### BREAKING CHANGES\n- Dropped Node 16" },
+    { version: "1.1.0", body: "- Added `retry` option" },
+  ]);
+});
+
+test("collectCandidateEvidence embeds release bodies with --with-notes", async () => {
+  const cwd = await fs.mkdtemp(path.join(os.tmpdir(), "next-updates-"));
+  await writeFixture(cwd, "fixtures/packuments/widget.json", {
+    repository: "github:acme/widget",
+    versions: { "1.0.0": {}, "1.1.0": {}, "1.2.0": {} },
+  });
+  await writeFixture(cwd, "fixtures/http.json", {
+    "https://api.github.com/repos/acme/widget/releases?per_page=100": {
+      status: 200,
+      body: JSON.stringify([
+        { tag_name: "v1.2.0", body: "Faster parser" },
+        { tag_name: "v1.1.0", body: "New `retry` option" },
+        { tag_name: "v1.0.0", body: "Initial release" },
+      ]),
+    },
+  });
+
+  const clients = await createEvidenceClients({ cwd, fixturesDir: "fixtures" });
+  const [result] = await collectCandidateEvidence(
+    [
+      {
+        packageName: "widget",
+        installedVersion: "1.0.0",
+        targetVersion: "1.2.0",
+      },
+    ],
+    clients,
+    { withNotes: true }
+  );
+
+  expect(result?.evidence?.notes).toEqual({
+    source: "releases",
+    url: "https://github.com/acme/widget/releases",
+    sections: [
+      { version: "1.2.0", body: "Faster parser" },
+      { version: "1.1.0", body: "New `retry` option" },
+    ],
+    truncated: false,
+  });
+});
+
+test("collectCandidateEvidence detects breaking changes past the notes excerpt", async () => {
+  const cwd = await fs.mkdtemp(path.join(os.tmpdir(), "next-updates-"));
+  const minors = Array.from({ length: 15 }, (_, minor) => `1.${minor}.0`);
+  await writeFixture(cwd, "fixtures/packuments/widget.json", {
+    repository: "github:acme/widget",
+    versions: Object.fromEntries(minors.map((version) => [version, {}])),
+  });
+  await writeFixture(cwd, "fixtures/http.json", {
+    "https://api.github.com/repos/acme/widget/releases?per_page=100": {
+      status: 200,
+      body: JSON.stringify(
+        minors
+          .map((version) => ({
+            tag_name: `v${version}`,
+            body:
+              version === "1.1.0"
+                ? "BREAKING: `parse()` is async"
+                : "Bug fixes",
+          }))
+          .reverse()
+      ),
+    },
+  });
+
+  const clients = await createEvidenceClients({ cwd, fixturesDir: "fixtures" });
+  const [result] = await collectCandidateEvidence(
+    [
+      {
+        packageName: "widget",
+        installedVersion: "1.0.0",
+        targetVersion: "1.14.0",
+      },
+    ],
+    clients,
+    { withNotes: true }
+  );
+
+  expect(result?.evidence?.notes?.truncated).toBe(true);
+  expect(
+    result?.evidence?.notes?.sections.map((section) => section.version)
+  ).not.toContain("1.1.0");
+  expect(result?.signals.breaking).toEqual({
+    detected: true,
+    excerpts: ["1.1.0: BREAKING: `parse()` is async"],
+  });
+});
+
+test("detectBreakingChanges collects excerpts from the version window", () => {
+  const signal = detectBreakingChanges({
+    source: "changelog",
+    url: "https://example.com/CHANGELOG.md",
+    sections: [
+      {
+        version: "2.0.0",
+        body: [
+          "### BREAKING CHANGES",
+          "- `parse()` now returns a Promise",
+          "",
+          "### Features",
+          "- Drop support for Node 16",
+          "- Added streaming API",
+        ].join("\n"),
+      },
+      { version: "1.1.0", body: "- Faster startup" },
+    ],
+    truncated: false,
+  });
+
+  expect(signal).toEqual({
+    detected: true,
+    excerpts: [
+      "2.0.0: `parse()` now returns a Promise",
+      "2.0.0: Drop support for Node 16",
+    ],
+  });
+  expect(detectBreakingChanges(null)).toBeNull();
+});
+
+test("detectBreakingChanges ignores routine removals", () => {
+  const signal = detectBreakingChanges({
+    sections: [
+      {
+        version: "1.2.0",
+        body: [
+          "- Remove unused dev dependency",
+          "- remove flaky test",
+          "- Removed the `legacy` option",
+        ].join("\n"),
+      },
+    ],
+  });
+
+  expect(signal).toEqual({
+    detected: true,
+    excerpts: ["1.2.0: Removed the `legacy` option"],
+  });
+});
+
+test("collectCandidateEvidence attaches advisories from a local file", async () => {
+  const cwd = await fs.mkdtemp(path.join(os.tmpdir(), "next-updates-"));
+  await writeFixture(cwd, "advisories.json", {
+    lodash: [
+      {
+        id: 1_106_913,
+        title: "Command Injection in lodash",
+        severity: "high",
+        url: "https://github.com/advisories/GHSA-35jh-r3h4-6jhm",
+        vulnerable_versions: "<4.17.21",
+      },
+      {
+        id: 1523,
+        title: "Prototype Pollution in lodash",
+        severity: "moderate",
+        url: null,
+        vulnerable_versions: "<4.17.19",
+      },
+    ],
+  });
+
+  const clients = await createEvidenceClients({
+    cwd,
+    fixturesDir: "fixtures",
+    advisoriesFile: "advisories.json",
+  });
+  const [result] = await collectCandidateEvidence(
+    [
+      {
+        packageName: "lodash",
+        installedVersion: "4.17.20",
+        targetVersion: "4.17.21",
+      },
+    ],
+    clients
+  );
+
+  expect(result?.security).toEqual({
+    advisories: [
+      {
+        id: "1106913",
+        title: "Command Injection in lodash",
+        severity: "high",
+        url: "https://github.com/advisories/GHSA-35jh-r3h4-6jhm",
+        vulnerableVersions: "<4.17.21",
+        fixedByTarget: true,
+      },
+    ],
+  });
+});
+
+test("collectCandidateEvidence flags deprecated installed and target versions", async () => {
+  const cwd = await fs.mkdtemp(path.join(os.tmpdir(), "next-updates-"));
+  await writeFixture(cwd, "fixtures/packuments/request.json", {
+    "dist-tags": { latest: "2.88.2" },
+    versions: {
+      "2.88.0": { deprecated: "request has been deprecated" },
+      "2.88.2": {
+        deprecated:
+          "request has been deprecated, see https://github.com/request/request/issues/3142. Use `got` instead.",
+      },
+    },
+  });
+
+  const clients = await createEvidenceClients({ cwd, fixturesDir: "fixtures" });
+  const [result] = await collectCandidateEvidence(
+    [
+      {
+        packageName: "request",
+        installedVersion: "2.88.0",
+        targetVersion: "2.88.2",
+      },
+    ],
+    clients
+  );
+
+  expect(result?.signals.deprecation).toEqual({
+    installed: "request has been deprecated",
+    target:
+      "request has been deprecated, see https://github.com/request/request/issues/3142. Use `got` instead.",
+    package: {
+      message:
+        "request has been deprecated, see https://github.com/request/request/issues/3142. Use `got` instead.",
+      replacement: "got",
+    },
+  });
+});
+
+test("collectCandidateEvidence flags engines and peer ranges the repo cannot meet", async () => {
+  const cwd = await fs.mkdtemp(path.join(os.tmpdir(), "next-updates-"));
+  await writeFixture(cwd, "package.json", {
+    engines: { node: ">=18" },
+    dependencies: { "react-widget": "^1.0.0", react: "^17.0.2" },
+  });
+  await writeFixture(cwd, "fixtures/packuments/react-widget.json", {
+    versions: {
+      "1.0.0": {
+        engines: { node: ">=16" },
+        peerDependencies: { react: "^17.0.0", "react-dom": "^17.0.0" },
+        peerDependenciesMeta: { "react-dom": { optional: true } },
+      },
+      "2.0.0": {
+        engines: { node: ">=20" },
+        peerDependencies: { react: "^18.0.0", "react-dom": "^18.0.0" },
+        peerDependenciesMeta: { "react-dom": { optional: true } },
+      },
+    },
+  });
+
+  const clients = await createEvidenceClients({ cwd, fixturesDir: "fixtures" });
+  const repo = await createCompatibilityRepoContext({
+    cwd,
+    node: { range: ">=18", source: "engines" },
+    installedVersionLookup: (_packageFile, packageName) =>
+      packageName === "react" ? "17.0.2" : null,
+    packageFiles: ["package.json"],
+  });
+  const [result] = await collectCandidateEvidence(
+    [
+      {
+        packageName: "react-widget",
+        packageFile: "package.json",
+        installedVersion: "1.0.0",
+        targetVersion: "2.0.0",
+      },
+    ],
+    clients,
+    {},
+    repo
+  );
+
+  expect(result?.compatibility).toEqual({
+    compatible: false,
+    engines: {
+      installed: ">=16",
+      target: ">=20",
+      repoNode: { range: ">=18", source: "engines" },
+      satisfied: false,
+    },
+    peerDependencies: [
+      {
+        name: "react",
+        change: "changed",
+        installedRange: "^17.0.0",
+        targetRange: "^18.0.0",
+        installedVersion: "17.0.2",
+        satisfied: false,
+      },
+    ],
+  });
+});
+
+test("checkCompatibility reports unchanged engines the repo's Node cannot meet", () => {
+  const registry = {
+    versions: {
+      "1.0.0": { engines: { node: ">=20" } },
+      "1.1.0": { engines: { node: ">=20" } },
+    },
+  };
+  const check = (range: string) =>
+    checkCompatibility({
+      registry,
+      packageFile: "package.json",
+      installedVersion: "1.0.0",
+      targetVersion: "1.1.0",
+      repo: {
+        node: { range, source: ".nvmrc" },
+        getInstalledVersion: () => null,
+      },
+    });
+
+  expect(check("18")).toEqual({
+    compatible: false,
+    engines: {
+      installed: ">=20",
+      target: ">=20",
+      repoNode: { range: "18", source: ".nvmrc" },
+      satisfied: false,
+    },
+    peerDependencies: [],
+  });
+  expect(check("22")).toBeNull();
+});
@@ -0,0 +1,83 @@
+import { expect, test } from "vitest";
+
+import { buildUpgradeGroups } from "../src/core/candidates/groups";
+import type { NextUpdatesCandidate } from "../src/core/report/types";
+
+function createCandidate(
+  packageName: string,
+  versions: [string, string],
+  relations: Partial<NextUpdatesCandidate["relations"]> = {}
+): NextUpdatesCandidate {
+  return {
+    packageFile: "package.json",
+    dependencyType: "dependencies",
+    packageName,
+    current: { range: `^${versions[0]}`, version: versions[0] },
+    target: { range: `^${versions[1]}`, version: versions[1] },
+    versionWindow: { delta: { major: 0, minor: 0, patch: 0, prerelease: 0 } },
+    evidence: null,
+    signals: {},
+    relations: { repository: null, peerDependencies: [], ...relations },
+  };
+}
+
+test("buildUpgradeGroups clusters peers, @types companions, repositories and scopes", () => {
+  const groups = buildUpgradeGroups([
+    createCandidate("react", ["17.0.2", "18.3.1"]),
+    createCandidate("react-dom", ["17.0.2", "18.3.1"], {
+      peerDependencies: ["react"],
+    }),
+    createCandidate("@types/react", ["17.0.80", "18.3.12"]),
+    createCandidate("@tanstack/react-query", ["5.0.0", "5.1.0"], {
+      repository: "https://github.com/TanStack/query",
+    }),
+    createCandidate("@tanstack/query-devtools", ["5.0.0", "5.1.0"], {
+      repository: "https://github.com/TanStack/query",
+    }),
+    createCandidate("lodash", ["4.17.20", "4.17.21"]),
+  ]);
+
+  expect(groups).toEqual([
+    {
+      id: "@tanstack/query-devtools+@tanstack/react-query",
+      reasons: ["repository", "scope"],
+      risk: "medium",
+      riskReasons: [],
+      packages: [
+        {
+          packageName: "@tanstack/query-devtools",
+          packageFiles: ["package.json"],
+          change: "minor",
+        },
+        {
+          packageName: "@tanstack/react-query",
+          packageFiles: ["package.json"],
+          change: "minor",
+        },
+      ],
+    },
+    {
+      id: "@types/react+react+react-dom",
+      reasons: ["peer", "types"],
+      risk: "high",
+      riskReasons: ["@types/react: major", "react: major", "react-dom: major"],
+      packages: [
+        {
+          packageName: "@types/react",
+          packageFiles: ["package.json"],
+          change: "major",
+        },
+        {
+          packageName: "react",
+          packageFiles: ["package.json"],
+          change: "major",
+        },
+        {
+          packageName: "react-dom",
+          packageFiles: ["package.json"],
+          change: "major",
+        },
+      ],
+    },
+  ]);
+});
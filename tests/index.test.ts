@@ -126,3 +126,89 @@ test("formatNextUpdatesGuidePromptMarkdown includes CLI instructions", () => {
   expect(guide).toContain("Repo size: large");
   expect(guide).toContain("Dashboard");
 });
+
+test("formatNextUpdatesPromptMarkdown embeds release note excerpts", () => {
+  const markdown = formatNextUpdatesPromptMarkdown({
+    generatedAt: "2025-01-01T00:00:00.000Z",
+    options: {
+      scopeRequested: "root",
+      scopeEffective: "root",
+      target: "latest",
+      dep: "all",
+      risk: "all",
+    },
+    packages: {
+      "package.json": {
+        dependencies: {
+          widget: {
+            current: { range: "^1.0.0", version: "1.0.0" },
+            target: { range: "^1.2.0", version: "1.2.0" },
+            versionWindow: {
+              delta: { major: 0, minor: 2, patch: 0, prerelease: 0 },
+            },
+            evidence: {
+              links: {},
+              notes: {
+                source: "changelog",
+                url: "https://raw.githubusercontent.com/acme/widget/HEAD/CHANGELOG.md",
+                sections: [{ version: "1.2.0", body: "- Faster parser" }],
+                truncated: true,
+              },
+            },
+          },
+        },
+      },
+    },
+  });
+
+  expect(markdown).toContain("  - Release notes (changelog): https://");
+  expect(markdown).toContain("    - `1.2.0`");
+  expect(markdown).toContain("      > - Faster parser");
+  expect(markdown).toContain("(truncated; see the source for the full notes)");
+});
+
+test("formatNextUpdatesPromptMarkdown lists advisories in a Security section", () => {
+  const markdown = formatNextUpdatesPromptMarkdown({
+    generatedAt: "2025-01-01T00:00:00.000Z",
+    options: {
+      scopeRequested: "root",
+      scopeEffective: "root",
+      target: "latest",
+      dep: "all",
+      risk: "security-only",
+    },
+    packages: {
+      "package.json": {
+        dependencies: {
+          lodash: {
+            current: { range: "^4.17.0", version: "4.17.20" },
+            target: { range: "^4.17.21", version: "4.17.21" },
+            versionWindow: {
+              delta: { major: 0, minor: 0, patch: 1, prerelease: 0 },
+            },
+            evidence: null,
+            security: {
+              advisories: [
+                {
+                  id: "1106913",
+                  title: "Command Injection in lodash",
+                  severity: "high",
+                  url: null,
+                  vulnerableVersions: "<4.17.21",
+                  fixedByTarget: true,
+                },
+              ],
+            },
+          },
+        },
+      },
+    },
+  });
+
+  expect(markdown.indexOf("## Security")).toBeLessThan(
+    markdown.indexOf("## package.json")
+  );
+  expect(markdown).toContain(
+    "- `lodash` (package.json): high — Command Injection in lodash (vulnerable: `<4.17.21`) — fixed by target"
+  );
+});
@@ -4,8 +4,52 @@ import path from "node:path";
 
 import { expect, test } from "vitest";
 
-import { createNpmInstalledVersionLookup } from "../src/core/lockfiles/npm";
-import { createPnpmInstalledVersionLookup } from "../src/core/lockfiles/pnpm";
+import { createBunLockfileGraph } from "../src/core/lockfiles/bun";
+import {
+  createNpmInstalledVersionLookup,
+  createNpmLockfileGraph,
+} from "../src/core/lockfiles/npm";
+import {
+  createPnpmInstalledVersionLookup,
+  createPnpmLockfileGraph,
+} from "../src/core/lockfiles/pnpm";
+import type { LockfileGraph } from "../src/core/lockfiles/types";
+import { createYarnLockfileGraph } from "../src/core/lockfiles/yarn";
+
+function describeGraph(graph: LockfileGraph | null) {
+  if (!graph) {
+    return null;
+  }
+  const label = (id: string) => {
+    const node = graph.nodes.get(id);
+    return node ? `${node.name}@${node.version}` : id;
+  };
+  return {
+    importers: Object.fromEntries(
+      [...graph.importers].map(([packageFile, direct]) => [
+        packageFile,
+        Object.values(direct).map(label).sort(),
+      ])
+    ),
+    edges: Object.fromEntries(
+      [...graph.nodes.keys()].map((id) => [
+        label(id),
+        Object.values(graph.nodes.get(id)?.dependencies ?? {}).map(label),
+      ])
+    ),
+  };
+}
+
+// The same tree in every format: the app pulls debug, whose nested ms@2
+// differs from the hoisted ms@1 that the app uses directly.
+const expectedGraph = {
+  importers: { "package.json": ["debug@4.3.4", "ms@1.0.0"] },
+  edges: {
+    "debug@4.3.4": ["ms@2.1.2"],
+    "ms@1.0.0": [],
+    "ms@2.1.2": [],
+  },
+};
 
 test("npm lockfile lookup reads installed version", async () => {
   const cwd = await fs.mkdtemp(path.join(os.tmpdir(), "next-updates-"));
@@ -51,3 +95,102 @@ test("pnpm lockfile lookup resolves importers and normalizes versions", async ()
   expect(rootVersion).toBe("4.17.21");
   expect(workspaceVersion).toBe("1.0.0");
 });
+
+test("lockfile graphs resolve nested copies in every format", async () => {
+  const cwd = await fs.mkdtemp(path.join(os.tmpdir(), "next-updates-"));
+
+  const npmPath = path.join(cwd, "package-lock.json");
+  await fs.writeFile(
+    npmPath,
+    JSON.stringify({
+      lockfileVersion: 3,
+      packages: {
+        "": {
+          dependencies: { debug: "^4.3.0" },
+          devDependencies: { ms: "^1.0.0" },
+        },
+        "node_modules/debug": {
+          version: "4.3.4",
+          dependencies: { ms: "2.1.2" },
+        },
+        "node_modules/debug/node_modules/ms": { version: "2.1.2" },
+        "node_modules/ms": { version: "1.0.0" },
+      },
+    })
+  );
+
+  const pnpmPath = path.join(cwd, "pnpm-lock.yaml");
+  await fs.writeFile(
+    pnpmPath,
+    [
+      "lockfileVersion: '9.0'",
+      "importers:",
+      "  .:",
+      "    dependencies:",
+      "      debug:",
+      "        specifier: ^4.3.0",
+      "        version: 4.3.4",
+      "    devDependencies:",
+      "      ms:",
+      "        specifier: ^1.0.0",
+      "        version: 1.0.0",
+      "snapshots:",
+      "  debug@4.3.4:",
+      "    dependencies:",
+      "      ms: 2.1.2",
+      "  ms@1.0.0: {}",
+      "  ms@2.1.2: {}",
+    ].join("\n")
+  );
+
+  const yarnPath = path.join(cwd, "yarn.lock");
+  await fs.writeFile(
+    path.join(cwd, "package.json"),
+    JSON.stringify({
+      dependencies: { debug: "^4.3.0" },
+      devDependencies: { ms: "^1.0.0" },
+    })
+  );
+  await fs.writeFile(
+    yarnPath,
+    [
+      "# yarn lockfile v1",
+      "",
+      "debug@^4.3.0:",
+      '  version "4.3.4"',
+      "  dependencies:",
+      '    ms "2.1.2"',
+      "",
+      "ms@2.1.2:",
+      '  version "2.1.2"',
+      "",
+      "ms@^1.0.0:",
+      '  version "1.0.0"',
+    ].join("\n")
+  );
+
+  const bunPath = path.join(cwd, "bun.lock");
+  await fs.writeFile(
+    bunPath,
+    `{
+  "lockfileVersion": 1,
+  "workspaces": {
+    "": { "name": "app", "dependencies": { "debug": "^4.3.0" }, "devDependencies": { "ms": "^1.0.0" } },
+  },
+  "packages": {
+    "debug": ["debug@4.3.4", "", { "dependencies": { "ms": "2.1.2" } }, "sha512-a"],
+    "debug/ms": ["ms@2.1.2", "", {}, "sha512-b"],
+    "ms": ["ms@1.0.0", "", {}, "sha512-c"],
+  },
+}`
+  );
+
+  for (const graph of await Promise.all([
+    createNpmLockfileGraph(npmPath),
+    createPnpmLockfileGraph(pnpmPath),
+    createYarnLockfileGraph(yarnPath),
+    createBunLockfileGraph(bunPath),
+  ])) {
+    expect(describeGraph(graph)).toEqual(expectedGraph);
+  }
+});
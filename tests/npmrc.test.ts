@@ -0,0 +1,69 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+
+import { afterEach, expect, test, vi } from "vitest";
+
+import {
+  readNpmrcConfig,
+  resolveNpmRegistryTarget,
+} from "../src/infra/fs/npmrc";
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+async function createNpmrcFixture(
+  project: string[],
+  user: string[]
+): Promise<string> {
+  const cwd = await fs.mkdtemp(path.join(os.tmpdir(), "next-updates-"));
+  const userConfig = path.join(cwd, "user.npmrc");
+  await fs.writeFile(path.join(cwd, ".npmrc"), project.join("\n"));
+  await fs.writeFile(userConfig, user.join("\n"));
+  vi.stubEnv("NPM_CONFIG_USERCONFIG", userConfig);
+  vi.stubEnv("npm_config_userconfig", undefined);
+  vi.stubEnv("npm_config_registry", undefined);
+  vi.stubEnv("NPM_CONFIG_REGISTRY", undefined);
+  return cwd;
+}
+
+test("resolveNpmRegistryTarget routes scoped packages with auth", async () => {
+  vi.stubEnv("COMPANY_NPM_TOKEN", "secret-token");
+  const cwd = await createNpmrcFixture(
+    [
+      "@company:registry=https://npm.company.dev/repository/npm/",
+      // biome-ignore lint/suspicious/noTemplateCurlyInString: npmrc env placeholder
+      "//npm.company.dev/:_authToken=${COMPANY_NPM_TOKEN}",
+    ],
+    ["registry=https://mirror.example.com"]
+  );
+
+  const config = await readNpmrcConfig(cwd);
+
+  expect(resolveNpmRegistryTarget(config, "@company/ui")).toEqual({
+    url: "https://npm.company.dev/repository/npm",
+    headers: { Authorization: "Bearer secret-token" },
+  });
+  expect(resolveNpmRegistryTarget(config, "lodash")).toEqual({
+    url: "https://mirror.example.com",
+    headers: {},
+  });
+});
+
+test("readNpmrcConfig prefers project settings over user settings", async () => {
+  const cwd = await createNpmrcFixture(
+    ["registry=https://project.example.com/"],
+    [
+      "registry=https://user.example.com/",
+      "//project.example.com/:_auth=dXNlcjpwYXNz",
+    ]
+  );
+
+  const config = await readNpmrcConfig(cwd);
+
+  expect(resolveNpmRegistryTarget(config, "@other/pkg")).toEqual({
+    url: "https://project.example.com",
+    headers: { Authorization: "Basic dXNlcjpwYXNz" },
+  });
+});
@@ -0,0 +1,165 @@
+import { expect, test } from "vitest";
+
+import {
+  collectOverrides,
+  readOverrideEntries,
+} from "../src/core/candidates/overrides";
+import type { LockfileGraph } from "../src/core/lockfiles/types";
+import type { NpmRegistryPackage } from "../src/core/registry/types";
+import { formatNextUpdatesPromptMarkdown } from "../src/core/report/format";
+
+const packuments: Record<string, NpmRegistryPackage> = {
+  semver: { "dist-tags": { latest: "7.6.3" } },
+  ms: { "dist-tags": { latest: "2.1.3" } },
+  debug: { versions: { "2.6.9": { dependencies: { ms: "2.0.0" } } } },
+  "old-cli": {
+    versions: { "1.0.0": { dependencies: { semver: "^5.0.0" } } },
+  },
+  "new-cli": {
+    versions: {
+      "2.0.0": { dependencies: { semver: "^5.7.2" } },
+      "3.0.0": { dependencies: { semver: "^7.5.2" } },
+    },
+  },
+};
+
+const registry = {
+  getPackage: async (packageName: string) => packuments[packageName] ?? null,
+  getDistTags: async (packageName: string) =>
+    packuments[packageName]?.["dist-tags"] ?? null,
+};
+
+test("readOverrideEntries parses npm, Yarn and pnpm override keys", () => {
+  const entries = readOverrideEntries({
+    dependencies: { semver: "^7.5.4" },
+    overrides: { semver: "$semver", "old-cli": { ".": "1.0.0", ms: "2.1.3" } },
+    resolutions: {
+      "**/@babel/core": "7.24.0",
+      "webpack/**/watchpack": "2.4.1",
+    },
+    pnpm: { overrides: { "new-cli@2>semver@<5.7.2": "^5.7.2" } },
+  });
+
+  expect(
+    entries.map((entry) => [
+      entry.source,
+      entry.packageName,
+      entry.parent,
+      entry.selector,
+      entry.pinned,
+    ])
+  ).toEqual([
+    ["overrides", "semver", null, null, "^7.5.4"],
+    ["overrides", "old-cli", null, null, "1.0.0"],
+    ["overrides", "ms", "old-cli", null, "2.1.3"],
+    ["resolutions", "@babel/core", null, null, "7.24.0"],
+    ["resolutions", "watchpack", "webpack", null, "2.4.1"],
+    ["pnpm.overrides", "semver", "new-cli", "<5.7.2", "^5.7.2"],
+  ]);
+});
+
+test("collectOverrides reports staleness and whether dependents moved past the range", async () => {
+  const node = (
+    name: string,
+    version: string,
+    dependencies: Record<string, string> = {}
+  ) => [`${name}@${version}`, { name, version, dependencies }] as const;
+  const graph: LockfileGraph = {
+    nodes: new Map([
+      node("old-cli", "1.0.0", { semver: "semver@5.7.2" }),
+      node("new-cli", "3.0.0", {
+        semver: "semver@7.5.2",
+        debug: "debug@2.6.9",
+      }),
+      node("debug", "2.6.9", { ms: "ms@2.1.3" }),
+      node("semver", "5.7.2"),
+      node("semver", "7.5.2"),
+      node("ms", "2.1.3"),
+    ]),
+    importers: new Map([
+      [
+        "package.json",
+        { "old-cli": "old-cli@1.0.0", "new-cli": "new-cli@3.0.0" },
+      ],
+    ]),
+  };
+  const overrides = await collectOverrides(
+    readOverrideEntries({
+      dependencies: { "old-cli": "^1.0.0", "new-cli": "^3.0.0" },
+      pnpm: {
+        overrides: {
+          semver: "^5.7.2",
+          "new-cli>semver": "^7.5.2",
+          ms: "2.1.3",
+        },
+      },
+    }),
+    {
+      registry,
+      installedVersionLookup: (_packageFile, packageName) =>
+        packageName === "new-cli" ? "3.0.0" : null,
+      graph,
+    }
+  );
+
+  expect(
+    overrides.map((override) => ({
+      key: override.key,
+      installed: override.installed,
+      latest: override.latest,
+      outdated: override.outdated,
+      needed: override.needed,
+      dependents: override.dependents.map((dependent) => [
+        dependent.packageName,
+        dependent.version,
+        dependent.allowsOverridden,
+      ]),
+    }))
+  ).toEqual([
+    {
+      key: "semver",
+      installed: "7.5.2",
+      latest: "7.6.3",
+      outdated: true,
+      needed: true,
+      dependents: [
+        ["new-cli", "3.0.0", true],
+        ["old-cli", "1.0.0", true],
+      ],
+    },
+    {
+      key: "new-cli>semver",
+      installed: "7.5.2",
+      latest: "7.6.3",
+      outdated: false,
+      needed: false,
+      dependents: [["new-cli", "3.0.0", false]],
+    },
+    {
+      key: "ms",
+      installed: "2.1.3",
+      latest: "2.1.3",
+      outdated: false,
+      needed: true,
+      dependents: [["debug", "2.6.9", true]],
+    },
+  ]);
+
+  const markdown = formatNextUpdatesPromptMarkdown({
+    generatedAt: "2025-01-01T00:00:00.000Z",
+    options: {
+      scopeRequested: "root",
+      scopeEffective: "root",
+      target: "latest",
+      dep: "all",
+      risk: "all",
+    },
+    packages: {},
+    overrides,
+  });
+  expect(markdown).toContain("## Overrides");
+  expect(markdown).toContain(
+    "- `semver` via pnpm.overrides `new-cli>semver`: pinned `^7.5.2` (installed: `7.5.2`, latest: `7.6.3`); still needed: no"
+  );
+  expect(markdown).toContain("No updates found.");
+});
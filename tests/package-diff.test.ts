@@ -0,0 +1,133 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { gzipSync } from "node:zlib";
+
+import { expect, test } from "vitest";
+
+import { createEvidenceClients } from "../src/core/evidence/clients";
+import { collectCandidateEvidence } from "../src/core/evidence/collect";
+import { formatNextUpdatesPromptMarkdown } from "../src/core/report/format";
+
+// Minimal ustar writer: one header block per file under "package/".
+function packTarball(files: Record<string, string>): Buffer {
+  const blocks: Buffer[] = [];
+  for (const [filePath, content] of Object.entries(files)) {
+    const data = Buffer.from(content);
+    const header = Buffer.alloc(512);
+    header.write(`package/${filePath}`, 0);
+    header.write(data.length.toString(8).padStart(11, "0"), 124);
+    header.write("0", 156);
+    header.write("ustar\u000000", 257);
+    blocks.push(header, data, Buffer.alloc((512 - (data.length % 512)) % 512));
+  }
+  blocks.push(Buffer.alloc(1024));
+  return gzipSync(Buffer.concat(blocks));
+}
+
+test("collectCandidateEvidence diffs installed and target tarballs with --package-diff", async () => {
+  const cwd = await fs.mkdtemp(path.join(os.tmpdir(), "next-updates-"));
+  try {
+    const tarballUrl = (version: string) =>
+      `https://registry.npmjs.org/@acme/widget/-/widget-${version}.tgz`;
+    await fs.mkdir(path.join(cwd, "fixtures/packuments/@acme"), {
+      recursive: true,
+    });
+    await fs.writeFile(
+      path.join(cwd, "fixtures/packuments/@acme/widget.json"),
+      JSON.stringify({
+        versions: {
+          "1.0.0": { dist: { tarball: tarballUrl("1.0.0") } },
+          "2.0.0": { dist: { tarball: tarballUrl("2.0.0") } },
+        },
+      })
+    );
+    await fs.mkdir(path.join(cwd, "fixtures/tarballs/@acme"), {
+      recursive: true,
+    });
+    await fs.writeFile(
+      path.join(cwd, "fixtures/tarballs/@acme/widget-1.0.0.tgz"),
+      packTarball({
+        "package.json": JSON.stringify({ main: "index.js", engines: {} }),
+        "index.js": "module.exports = 1;",
+        "README.md": "# widget",
+        "lib/legacy.js": "old",
+      })
+    );
+    await fs.writeFile(
+      path.join(cwd, "fixtures/tarballs/@acme/widget-2.0.0.tgz"),
+      packTarball({
+        "package.json": JSON.stringify({
+          main: "index.js",
+          type: "module",
+          exports: "./index.js",
+          engines: { node: ">=20" },
+        }),
+        "index.js": "export default 2;",
+        "README.md": "# widget",
+        "dist/index.d.ts": "export default 2;",
+      })
+    );
+
+    const clients = await createEvidenceClients({
+      cwd,
+      fixturesDir: "fixtures",
+    });
+    const [result] = await collectCandidateEvidence(
+      [
+        {
+          packageName: "@acme/widget",
+          installedVersion: "1.0.0",
+          targetVersion: "2.0.0",
+        },
+      ],
+      clients,
+      { packageDiff: true }
+    );
+
+    const packageDiff = result?.evidence?.packageDiff;
+    expect(packageDiff?.files).toEqual({
+      added: { count: 1, paths: ["dist/index.d.ts"] },
+      removed: { count: 1, paths: ["lib/legacy.js"] },
+      changed: { count: 2, paths: ["index.js", "package.json"] },
+      unchanged: 1,
+    });
+    expect(packageDiff?.packageJson).toEqual([
+      { field: "exports", from: null, to: "./index.js" },
+      { field: "type", from: null, to: "module" },
+      { field: "engines", from: {}, to: { node: ">=20" } },
+    ]);
+    expect(packageDiff?.unpackedSize).toEqual({ from: 62, to: 126, delta: 64 });
+
+    const markdown = formatNextUpdatesPromptMarkdown({
+      generatedAt: "2025-01-01T00:00:00.000Z",
+      options: {
+        scopeRequested: "root",
+        scopeEffective: "root",
+        target: "latest",
+        dep: "all",
+        risk: "all",
+      },
+      packages: {
+        "package.json": {
+          dependencies: {
+            "@acme/widget": {
+              current: { range: "^1.0.0", version: "1.0.0" },
+              target: { range: "^2.0.0", version: "2.0.0" },
+              ...result,
+            },
+          },
+        },
+      },
+    });
+    expect(markdown).toContain(
+      "  - Package diff: 1 added, 1 removed, 2 changed (1 unchanged); unpacked size 62 B -> 126 B (+64 B)"
+    );
+    expect(markdown).toContain(
+      '    - package.json `engines`: `{}` -> `{"node":">=20"}`'
+    );
+    expect(markdown).toContain("    - added: `dist/index.d.ts`");
+  } finally {
+    await fs.rm(cwd, { recursive: true, force: true });
+  }
+});
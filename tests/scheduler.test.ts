@@ -0,0 +1,96 @@
+import { expect, test } from "vitest";
+
+import type { HttpClient } from "../src/infra/http/client";
+import { createScheduledHttpClient } from "../src/infra/http/scheduler";
+
+test("createScheduledHttpClient retries throttled responses with backoff", async () => {
+  const statuses = [429, 503, 200];
+  const delays: number[] = [];
+  const inner: HttpClient = {
+    request: () =>
+      Promise.resolve(new Response(null, { status: statuses.shift() })),
+  };
+
+  const client = createScheduledHttpClient(inner, {
+    retries: 2,
+    backoffMs: 100,
+    sleep: (ms) => {
+      delays.push(ms);
+      return Promise.resolve();
+    },
+  });
+  const response = await client.request("https://api.github.com/repos/a/b");
+
+  expect(response.status).toBe(200);
+  expect(delays).toEqual([100, 200]);
+});
+
+test("createScheduledHttpClient caps concurrent requests", async () => {
+  let active = 0;
+  let maxActive = 0;
+  const inner: HttpClient = {
+    async request(_url, init) {
+      expect(init?.signal).toBeInstanceOf(AbortSignal);
+      active += 1;
+      maxActive = Math.max(maxActive, active);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      active -= 1;
+      return new Response(null, { status: 200 });
+    },
+  };
+
+  const client = createScheduledHttpClient(inner, { concurrency: 2 });
+  await Promise.all(
+    Array.from({ length: 6 }, (_, index) =>
+      client.request(`https://example.com/${index}`)
+    )
+  );
+
+  expect(maxActive).toBe(2);
+});
+
+test("createScheduledHttpClient hands a finished slot to the next waiter", async () => {
+  let active = 0;
+  let maxActive = 0;
+  let finishFirst = () => undefined;
+  const first = new Promise<void>((resolve) => {
+    finishFirst = () => resolve();
+  });
+  const requests: Promise<Response>[] = [];
+  const inner: HttpClient = {
+    request(url) {
+      active += 1;
+      maxActive = Math.max(maxActive, active);
+      const isFirst = url.endsWith("/first");
+      const done = (
+        isFirst ? first : new Promise((resolve) => setTimeout(resolve, 5))
+      ).then(() => {
+        active -= 1;
+        return new Response(null, { status: 200 });
+      });
+      if (isFirst) {
+        // Runs right after the limiter sees the first request finish, before
+        // the queued request resumes.
+        queueMicrotask(() => {
+          done.then(() => {
+            requests.push(client.request("https://example.com/late"));
+          });
+        });
+      }
+      return done;
+    },
+  };
+
+  const client = createScheduledHttpClient(inner, { concurrency: 1 });
+  requests.push(
+    client.request("https://example.com/first"),
+    client.request("https://example.com/queued")
+  );
+  await new Promise((resolve) => setTimeout(resolve, 1));
+  finishFirst();
+  await requests[0];
+  await Promise.all(requests);
+
+  expect(requests).toHaveLength(3);
+  expect(maxActive).toBe(1);
+});
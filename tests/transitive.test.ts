@@ -0,0 +1,127 @@
+import { expect, test } from "vitest";
+
+import { collectTransitivePackages } from "../src/core/candidates/transitive";
+import type { LockfileGraph } from "../src/core/lockfiles/types";
+import type { NpmRegistryPackage } from "../src/core/registry/types";
+
+const packuments: Record<string, NpmRegistryPackage> = {
+  debug: {
+    "dist-tags": { latest: "4.4.0" },
+    versions: { "4.4.0": { dependencies: { ms: "^2.1.3" } } },
+  },
+  express: {
+    "dist-tags": { latest: "4.21.0" },
+    versions: { "4.21.0": { dependencies: { debug: "2.6.9" } } },
+  },
+  ms: {
+    "dist-tags": { latest: "2.1.3" },
+    versions: { "2.0.0": {}, "2.1.2": {}, "2.1.3": {} },
+  },
+  tslib: { "dist-tags": { latest: "2.8.1" } },
+};
+
+const fetchedPackuments: string[] = [];
+const registry = {
+  getPackage: (packageName: string) => {
+    fetchedPackuments.push(packageName);
+    return Promise.resolve(packuments[packageName] ?? null);
+  },
+  getDistTags: async (packageName: string) =>
+    packuments[packageName]?.["dist-tags"] ?? null,
+};
+
+test("collectTransitivePackages reports stale and duplicated packages with their direct dependents", async () => {
+  const graph: LockfileGraph = {
+    nodes: new Map([
+      [
+        "debug@4.3.4",
+        { name: "debug", version: "4.3.4", dependencies: { ms: "ms@2.1.2" } },
+      ],
+      [
+        "express@4.21.0",
+        {
+          name: "express",
+          version: "4.21.0",
+          dependencies: { debug: "debug@2.6.9", tslib: "tslib@2.8.1" },
+        },
+      ],
+      [
+        "debug@2.6.9",
+        { name: "debug", version: "2.6.9", dependencies: { ms: "ms@2.0.0" } },
+      ],
+      ["ms@2.1.2", { name: "ms", version: "2.1.2", dependencies: {} }],
+      ["ms@2.0.0", { name: "ms", version: "2.0.0", dependencies: {} }],
+      ["tslib@2.8.1", { name: "tslib", version: "2.8.1", dependencies: {} }],
+    ]),
+    importers: new Map([
+      ["package.json", { debug: "debug@4.3.4", express: "express@4.21.0" }],
+      ["packages/app/package.json", { debug: "debug@4.3.4" }],
+    ]),
+  };
+
+  const packages = await collectTransitivePackages(graph, {
+    registry,
+    ignore: (packageName) => packageName === "debug",
+  });
+
+  expect(packages).toEqual([
+    {
+      packageName: "ms",
+      versions: ["2.0.0", "2.1.2"],
+      latest: "2.1.3",
+      outdated: true,
+      duplicated: true,
+      via: [
+        {
+          packageFiles: ["package.json", "packages/app/package.json"],
+          directDependency: "debug",
+          directVersion: "4.3.4",
+          path: ["debug", "ms"],
+          version: "2.1.2",
+          refreshedByUpgrade: true,
+        },
+        {
+          packageFiles: ["package.json"],
+          directDependency: "express",
+          directVersion: "4.21.0",
+          path: ["express", "debug", "ms"],
+          version: "2.0.0",
+          refreshedByUpgrade: null,
+        },
+      ],
+      viaCount: 2,
+    },
+  ]);
+  // Up-to-date single-version packages are settled by their dist-tags.
+  expect(fetchedPackuments).not.toContain("tslib");
+});
+
+test("collectTransitivePackages lists every direct dependency reaching a shared subtree", async () => {
+  const node = (
+    name: string,
+    version: string,
+    dependencies: Record<string, string> = {}
+  ) => [`${name}@${version}`, { name, version, dependencies }] as const;
+  const graph: LockfileGraph = {
+    nodes: new Map([
+      node("express", "4.21.0", { debug: "debug@2.6.9" }),
+      node("koa", "2.15.0", { debug: "debug@2.6.9" }),
+      // A cycle back into the shared subtree must not be walked again.
+      node("debug", "2.6.9", { ms: "ms@2.0.0", koa: "koa@2.15.0" }),
+      node("ms", "2.0.0"),
+    ]),
+    importers: new Map([
+      ["package.json", { express: "express@4.21.0", koa: "koa@2.15.0" }],
+    ]),
+  };
+
+  const [ms] = await collectTransitivePackages(graph, {
+    registry,
+    ignore: (packageName) => packageName !== "ms",
+  });
+
+  expect(ms?.via.map((via) => via.path)).toEqual([
+    ["express", "debug", "ms"],
+    ["koa", "debug", "ms"],
+  ]);
+});
@@ -6,6 +6,8 @@ import { expect, test } from "vitest";
 import {
   detectWorkspacePatterns,
   hasWorkspaceConfig,
+  readPnpmWorkspace,
+  resolveWorkspacePaths,
 } from "../src/infra/fs/workspaces";
 
 async function writePackageJson(
@@ -48,3 +50,49 @@ test("hasWorkspaceConfig returns false when no workspace config", async () => {
 
   expect(hasWorkspaces).toBe(false);
 });
+
+test("readPnpmWorkspace parses the default and named catalogs", async () => {
+  const cwd = await fs.mkdtemp(path.join(os.tmpdir(), "next-updates-"));
+  await writePnpmWorkspace(
+    cwd,
+    [
+      "packages:",
+      "  - packages/*",
+      "catalog:",
+      "  react: ^18.2.0",
+      "catalogs:",
+      "  legacy:",
+      "    react: ^17.0.2",
+    ].join("\n")
+  );
+
+  expect(await readPnpmWorkspace(cwd)).toEqual({
+    packages: ["packages/*"],
+    catalogs: {
+      default: { react: "^18.2.0" },
+      legacy: { react: "^17.0.2" },
+    },
+  });
+});
+
+test("resolveWorkspacePaths expands globs, applies exclusions and skips node_modules", async () => {
+  const cwd = await fs.mkdtemp(path.join(os.tmpdir(), "next-updates-"));
+  for (const dir of [
+    "packages/a",
+    "packages/legacy-b",
+    "packages/a/node_modules/dep",
+    "apps/web",
+    "tools/x",
+  ]) {
+    await fs.mkdir(path.join(cwd, dir), { recursive: true });
+    await writePackageJson(path.join(cwd, dir), { name: path.basename(dir) });
+  }
+
+  const paths = await resolveWorkspacePaths(cwd, [
+    "./packages/**",
+    "apps/web",
+    "!packages/legacy-*",
+  ]);
+
+  expect(paths).toEqual(["apps/web", "packages/a"]);
+});